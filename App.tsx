@@ -1,9 +1,33 @@
-import React, { useState } from 'react';
-import VideoPlayer from './components/VideoPlayer';
-import { analyzeVideoContent } from './services/geminiService';
-import { isYoutubeUrl, resolveYoutubeUrl } from './services/youtubeService';
-import { AnalysisStatus, AnalysisResult, VideoFile } from './types';
-import { UploadIcon, BrainCircuitIcon, XIcon, LinkIcon, YoutubeIcon } from './components/Icons';
+import React, { useEffect, useRef, useState } from 'react';
+import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
+import AnalyzerPicker from './components/AnalyzerPicker';
+import AnalysisLibrary from './components/AnalysisLibrary';
+import StatsPanel from './components/StatsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import TranscriptPanel from './components/TranscriptPanel';
+import PlaylistQueue from './components/PlaylistQueue';
+import AnalysisProgressPanel from './components/AnalysisProgressPanel';
+import ResolverSettings from './components/ResolverSettings';
+import DownloadSettings from './components/DownloadSettings';
+import { getAnalyzer, listAnalyzers, loadAnalyzerSettings, loadSelectedAnalyzerId, saveAnalyzerSettings, saveSelectedAnalyzerId } from './services/analyzerRegistry';
+import { deleteCachedAnalysis, findCachedAnalyses, hashFile, listCachedAnalyses } from './services/cacheService';
+import { analyzeWithCache } from './services/analysisService';
+import { isCancelled } from './services/retryService';
+import { downloadVideo, formatMegabytes, loadDownloadSettings, saveDownloadSettings } from './services/downloadService';
+import { createQueueItem, loadQueueConcurrency, saveQueueConcurrency } from './services/queueService';
+import { downloadBlob, downloadText, EXPORT_FORMATS, ExportFormat, parseSegmentsFile, serializeSegments } from './services/segmentFormatService';
+import { getMediaDuration } from './services/mediaService';
+import { exportCondensedMedia } from './services/exportService';
+import { chapterIndexAt } from './services/chapterService';
+import { formatClock } from './services/statsService';
+import { describeReport, normalizeAnalysis } from './services/normalizeService';
+import { clearResolverHealth, isYoutubeUrl, loadResolverHealth, loadResolverSettings, saveResolverSettings, YoutubeResolveError } from './services/youtubeService';
+import { clearHistory, loadHistory, moveHistoryEntry, recordTimeSaved, recordView } from './services/historyService';
+import { buildShareUrl, canShareSource, parseShareFragment, SharedSession } from './services/shareService';
+import { loadSelectedProfileId, loadSkipProfiles, saveSelectedProfileId, saveSkipProfiles } from './services/profileService';
+import { loadMinConfidence, loadSegmentOverrides, loadSkipPolicies, moveSegmentOverrides, resolvePolicy, saveSegmentOverrides, segmentKey } from './services/skipPolicyService';
+import { AnalysisProgress, AnalysisStatus, AnalysisResult, AnalyzerSettings, CachedAnalysis, DownloadSettings as DownloadSettingsValue, HistoryEntry, PlaybackSettings, QueueItem, ResolverAttempt, ResolverHealth, ResolverSettings as ResolverSettingsValue, SegmentOverride, SegmentOverrides, SkipMode, SkipProfile, SkipSegment, VideoFile } from './types';
+import { UploadIcon, XIcon, LinkIcon, YoutubeIcon } from './components/Icons';
 
 const App: React.FC = () => {
   const [videoFile, setVideoFile] = useState<VideoFile | null>(null);
@@ -11,106 +35,256 @@ const App: React.FC = () => {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progressMessage, setProgressMessage] = useState<string>('');
+  const [analyzedUntil, setAnalyzedUntil] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState(0);
+  const [normalizationNote, setNormalizationNote] = useState('');
+  const [analyzerId, setAnalyzerId] = useState<string>(loadSelectedAnalyzerId);
+  const [analyzerSettings, setAnalyzerSettings] = useState<AnalyzerSettings>(loadAnalyzerSettings);
+  const [skipProfiles, setSkipProfiles] = useState<SkipProfile[]>(loadSkipProfiles);
+  const [profileId, setProfileId] = useState<string>(loadSelectedProfileId);
+
+  // The analysis started from the player while it runs, with its timing for the progress panel
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [analysisRun, setAnalysisRun] = useState<{ startedAt: number; phaseStartedAt: number; progress: AnalysisProgress | null } | null>(null);
+
+  // Analysis cache
+  const [cachedMatches, setCachedMatches] = useState<CachedAnalysis[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryEntries, setLibraryEntries] = useState<CachedAnalysis[]>([]);
+  const currentFileRef = useRef<File | null>(null);
+
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const [playerTime, setPlayerTime] = useState(0);
+
+  // Playlist queue, analyzed in the background
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [showQueue, setShowQueue] = useState(false);
+  const [queueConcurrency, setQueueConcurrency] = useState<number>(loadQueueConcurrency);
+  const [activeQueueId, setActiveQueueId] = useState<string | null>(null);
+  const [autoPlay, setAutoPlay] = useState(false);
+  const runningQueueRef = useRef(new Set<string>());
+  const queueAbortRef = useRef(new Map<string, AbortController>());
+  // A waiting queue item the player is analyzing itself; the queue leaves it alone meanwhile
+  const playerQueueIdRef = useRef<string | null>(null);
+
+  // Condensed media export; null while idle
+  const [condensedExport, setCondensedExport] = useState<{ audioOnly: boolean; progress: number } | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  // Stats and viewing history
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const viewedIdRef = useRef<string | null>(null); // The video whose current viewing is already recorded
+
+  // Per-segment keep/skip choices, remembered per video
+  const [segmentOverrides, setSegmentOverrides] = useState<SegmentOverrides>({});
+  const [showAllSkips, setShowAllSkips] = useState(false);
+  // Until hashing finishes a video goes by name and size; what was saved under that moves to the hash
+  const provisionalId = (file: File) => `${file.name}:${file.size}`;
+  const videoId = videoFile ? videoFile.contentHash || provisionalId(videoFile.file) : null;
+
+  useEffect(() => {
+    setSegmentOverrides(videoId ? loadSegmentOverrides(videoId) : {});
+  }, [videoId]);
+
+  // Player settings from an opened share link, applied when its video loads
+  const [sharedPlayback, setSharedPlayback] = useState<Omit<SharedSession, 'source' | 'segments'> | null>(null);
+  const [shareCopied, setShareCopied] = useState(false);
 
   // New states for URL handling
   const [activeTab, setActiveTab] = useState<'upload' | 'url'>('upload');
   const [urlInput, setUrlInput] = useState('');
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadStatus, setDownloadStatus] = useState<string>('');
+  const [downloadProgress, setDownloadProgress] = useState<{ received: number; total?: number } | null>(null);
+  const [downloadSettings, setDownloadSettings] = useState<DownloadSettingsValue>(loadDownloadSettings);
+  const [showDownloadSettings, setShowDownloadSettings] = useState(false);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+
+  // YouTube resolver pool
+  const [showResolvers, setShowResolvers] = useState(false);
+  const [resolverSettings, setResolverSettings] = useState<ResolverSettingsValue>(loadResolverSettings);
+  const [resolverHealth, setResolverHealth] = useState<Record<string, ResolverHealth>>(loadResolverHealth);
+  const [resolverFailures, setResolverFailures] = useState<ResolverAttempt[]>([]);
+
+  // Hashes the freshly loaded file and offers any analyses we already have for it
+  const lookupCache = async (file: File) => {
+    try {
+      const contentHash = await hashFile(file);
+      if (currentFileRef.current !== file) return;
+      try {
+        moveSegmentOverrides(provisionalId(file), contentHash);
+        setHistoryEntries(moveHistoryEntry(provisionalId(file), contentHash));
+      } catch (e) {
+        console.warn("Could not move saved choices to the content hash:", e);
+      }
+      setVideoFile(prev => prev && prev.file === file ? { ...prev, contentHash } : prev);
+      const matches = await findCachedAnalyses(contentHash);
+      if (currentFileRef.current === file) setCachedMatches(matches);
+    } catch (e) {
+      console.warn("Analysis cache unavailable:", e);
+    }
+  };
+
+  const abortAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    playerQueueIdRef.current = null;
+    setAnalysisRun(null);
+  };
+
+  const loadVideo = (file: File, sourceUrl?: string) => {
+    abortAnalysis();
+    const url = URL.createObjectURL(file);
+    currentFileRef.current = file;
+    setVideoFile({ file, previewUrl: url, sourceUrl });
+    setSharedPlayback(null);
+    setAnalysisStatus(AnalysisStatus.IDLE);
+    setAnalysisResult(null);
+    setError(null);
+    setCachedMatches([]);
+    setMediaDuration(0);
+    setPlayerTime(0);
+    viewedIdRef.current = null;
+    setNormalizationNote('');
+    lookupCache(file);
+    getMediaDuration(file)
+      .then(duration => currentFileRef.current === file && setMediaDuration(duration))
+      .catch(e => console.warn("Could not read media duration:", e));
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setVideoFile({ file, previewUrl: url });
-      setAnalysisStatus(AnalysisStatus.IDLE);
-      setAnalysisResult(null);
-      setError(null);
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (files.length > 1) {
+      // Several files at once go to the queue; start with the first
+      playQueueItem(addToQueue(files)[0], false);
+    } else if (files[0]) {
+      loadVideo(files[0]);
     }
   };
 
-  const handleUrlSubmit = async (e: React.FormEvent) => {
+  const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!urlInput.trim()) return;
+    loadFromUrl(urlInput.trim());
+  };
 
+  // Downloads a pasted or shared link; shared skips and player settings replace the analysis
+  const loadFromUrl = async (url: string, shared?: SharedSession) => {
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
     setIsDownloading(true);
     setError(null);
+    setResolverFailures([]);
     setDownloadStatus('Initializing...');
+    setDownloadProgress(null);
 
     try {
-        let fetchUrl = urlInput;
-        const isYT = isYoutubeUrl(urlInput);
-
-        // 1. Resolve YouTube URL if necessary
-        if (isYT) {
-            setDownloadStatus('Resolving YouTube stream...');
-            fetchUrl = await resolveYoutubeUrl(urlInput);
+        const file = await downloadVideo(url, {
+            settings: downloadSettings,
+            signal: controller.signal,
+            onStatus: setDownloadStatus,
+            onProgress: (received, total) => setDownloadProgress({ received, total }),
+        });
+        loadVideo(file, url);
+        if (shared) {
+            setAnalysisResult({ segments: shared.segments, summary: 'Shared skips' });
+            setAnalysisStatus(AnalysisStatus.COMPLETED);
+            setSharedPlayback({ mode: shared.mode, playbackRate: shared.playbackRate, startTime: shared.startTime });
         }
-
-        // 2. Fetch the video data with robust fallback
-        setDownloadStatus(isYT ? 'Downloading video data (via Proxy)...' : 'Downloading video...');
-        
-        // Strategy: Try multiple proxy services if the first fails
-        const proxyStrategies = [
-            (u: string) => `https://corsproxy.io/?${encodeURIComponent(u)}`,
-            (u: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(u)}`,
-            (u: string) => `https://thingproxy.freeboard.io/fetch/${u}`,
-        ];
-
-        let blob: Blob | null = null;
-        let lastError;
-
-        // Try proxies first (needed for most external video links due to CORS)
-        for (const createProxy of proxyStrategies) {
-            try {
-                const proxyUrl = isYT ? createProxy(fetchUrl) : fetchUrl; 
-                // Note: If not YT, we try direct first usually, but for this loop we can assume proxy needed for external URL
-                // Let's adjust: if not YT, try direct first, then proxies.
-                
-                if (!isYT && createProxy === proxyStrategies[0]) {
-                     try {
-                         const res = await fetch(fetchUrl);
-                         if (res.ok) {
-                             blob = await res.blob();
-                             break;
-                         }
-                     } catch(e) {}
-                }
-
-                const res = await fetch(createProxy(fetchUrl));
-                if (!res.ok) throw new Error(`Status ${res.status}`);
-                blob = await res.blob();
-                break; // Success
-            } catch (err) {
-                lastError = err;
-                continue;
-            }
-        }
-
-        if (!blob) {
-            throw new Error(`Failed to download video. ${lastError?.message || ''}`);
-        }
-        
-        // Create a File object from the blob
-        const fileName = isYT ? 'youtube_video.mp4' : (urlInput.split('/').pop()?.split('?')[0] || 'video.mp4');
-        const file = new File([blob], fileName, { type: blob.type || 'video/mp4' });
-        const url = URL.createObjectURL(file);
-        
-        setVideoFile({ file, previewUrl: url });
-        setAnalysisStatus(AnalysisStatus.IDLE);
-        setAnalysisResult(null);
     } catch (err: any) {
+        if (isCancelled(err)) return;
         console.error(err);
         setError(err.message || "Could not download video. Please check the URL.");
+        if (err instanceof YoutubeResolveError) {
+            setResolverFailures(err.attempts);
+            setShowResolvers(true);
+        }
     } finally {
+        downloadAbortRef.current = null;
         setIsDownloading(false);
         setDownloadStatus('');
+        setDownloadProgress(null);
+        if (isYoutubeUrl(url)) setResolverHealth(loadResolverHealth());
+    }
+  };
+
+  const openShareLink = (hash: string) => {
+    let shared: SharedSession | null;
+    try {
+      shared = parseShareFragment(hash);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    if (!shared) return;
+    // The link has been used; a reload should not download it again
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    handleReset();
+    setActiveTab('url');
+    setUrlInput(shared.source);
+    loadFromUrl(shared.source, shared);
+  };
+
+  // Share links open on load, and when pasted into the address bar of an open tab
+  const openShareLinkRef = useRef(openShareLink);
+  openShareLinkRef.current = openShareLink;
+  useEffect(() => {
+    const onHashChange = () => openShareLinkRef.current(window.location.hash);
+    onHashChange();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const handleShare = async () => {
+    if (!videoFile?.sourceUrl || !analysisResult) return;
+    const settings = playbackSettings;
+    const mode: SkipMode = !settings?.smartSkipEnabled ? 'off' : settings.speedThroughEnabled ? 'speed' : 'skip';
+    const link = buildShareUrl({
+      source: videoFile.sourceUrl,
+      segments: analysisResult.segments,
+      mode,
+      playbackRate: settings?.playbackRate ?? 1,
+      startTime: playerTime,
+    });
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch (e) {
+      // Clipboard access can be refused; offer the link to copy by hand
+      console.warn("Could not copy share link:", e);
+      window.prompt('Copy this link', link);
     }
   };
 
+  const handleDownloadSettingsChange = (settings: DownloadSettingsValue) => {
+    setDownloadSettings(settings);
+    saveDownloadSettings(settings);
+  };
+
+  const handleResolverSettingsChange = (settings: ResolverSettingsValue) => {
+    setResolverSettings(settings);
+    saveResolverSettings(settings);
+  };
+
+  const handleResetResolverHealth = () => {
+    clearResolverHealth();
+    setResolverHealth({});
+  };
+
   const handleReset = () => {
+    exportAbortRef.current?.abort();
+    downloadAbortRef.current?.abort();
+    abortAnalysis();
+    setActiveQueueId(null);
+    setAutoPlay(false);
     if (videoFile) URL.revokeObjectURL(videoFile.previewUrl);
+    currentFileRef.current = null;
     setVideoFile(null);
+    setCachedMatches([]);
+    setNormalizationNote('');
     setAnalysisStatus(AnalysisStatus.IDLE);
     setAnalysisResult(null);
     setError(null);
@@ -119,25 +293,388 @@ const App: React.FC = () => {
     setProgressMessage('');
   };
 
-  const startAnalysis = async () => {
+  const handleAnalyzerChange = (id: string) => {
+    setAnalyzerId(id);
+    saveSelectedAnalyzerId(id);
+  };
+
+  const handleAnalyzerSettingsChange = (settings: AnalyzerSettings) => {
+    setAnalyzerSettings(settings);
+    saveAnalyzerSettings(settings);
+  };
+
+  const handleProfileSelect = (id: string) => {
+    setProfileId(id);
+    saveSelectedProfileId(id);
+  };
+
+  const handleProfilesChange = (profiles: SkipProfile[]) => {
+    setSkipProfiles(profiles);
+    saveSkipProfiles(profiles);
+  };
+
+  // A deleted or unknown selection falls back to the first profile
+  const skipProfile = skipProfiles.find(p => p.id === profileId) || skipProfiles[0];
+
+  const analyzerLabel = (id: string) => listAnalyzers().find(a => a.id === id)?.label || id;
+
+  const refreshLibrary = async () => {
+    try {
+      setLibraryEntries(await listCachedAnalyses());
+    } catch (e) {
+      console.warn("Could not read analysis library:", e);
+    }
+  };
+
+  const toggleLibrary = () => {
+    if (!showLibrary) refreshLibrary();
+    setShowLibrary(!showLibrary);
+  };
+
+  const toggleHistory = () => {
+    if (!showHistory) setHistoryEntries(loadHistory());
+    setShowHistory(!showHistory);
+  };
+
+  const handleClearHistory = () => {
+    clearHistory();
+    setHistoryEntries([]);
+  };
+
+  // The player reports savings in batches; fold them into this video's history entry
+  const handleTimeSaved = (seconds: number) => {
+    if (!videoFile || !videoId) return;
+    try {
+      const entries = recordTimeSaved(
+        { id: videoId, fileName: videoFile.file.name, duration: mediaDuration },
+        seconds
+      );
+      if (showHistory) setHistoryEntries(entries);
+    } catch (e) {
+      console.warn("Could not save viewing history:", e);
+    }
+  };
+
+  // A video counts as watched once playback moves, whether or not anything was skipped
+  const handlePlayerTime = (time: number) => {
+    setPlayerTime(time);
+    if (!videoFile || !videoId || time <= 0 || viewedIdRef.current === videoId) return;
+    viewedIdRef.current = videoId;
+    try {
+      const entries = recordView({ id: videoId, fileName: videoFile.file.name, duration: mediaDuration });
+      if (showHistory) setHistoryEntries(entries);
+    } catch (e) {
+      console.warn("Could not save viewing history:", e);
+    }
+  };
+
+  const applyCachedAnalysis = (entry: CachedAnalysis) => {
+    storeActiveQueueResult(entry.result);
+    setNormalizationNote('');
+    setAnalysisResult(entry.result);
+    setAnalysisStatus(AnalysisStatus.COMPLETED);
+    setError(null);
+  };
+
+  const handleDeleteCached = async (entry: CachedAnalysis) => {
+    await deleteCachedAnalysis(entry.id);
+    setCachedMatches(prev => prev.filter(e => e.id !== entry.id));
+    refreshLibrary();
+  };
+
+  // Manual edits from the timeline replace the current result
+  const handleSegmentsChange = (segments: SkipSegment[]) => {
+    const result = analysisResult ? { ...analysisResult, segments } : { segments, summary: 'Manually marked segments' };
+    setAnalysisResult(result);
+    setAnalysisStatus(AnalysisStatus.COMPLETED);
+    storeActiveQueueResult(result);
+  };
+
+  // Whether the player's skip rules, plus an optional override, leave a segment in
+  const isKept = (seg: SkipSegment, override?: SegmentOverride) => resolvePolicy(
+    seg,
+    playbackSettings?.policies || loadSkipPolicies(),
+    playbackSettings?.minConfidence ?? loadMinConfidence(),
+    false,
+    override
+  ) === 'ignore';
+
+  // Flips a segment between kept and skipped; an override that matches the rules is dropped
+  const handleToggleSegment = (seg: SkipSegment) => {
+    if (!videoId) return;
+    const key = segmentKey(seg);
+    const { [key]: current, ...others } = segmentOverrides;
+    const byRules: SegmentOverride = isKept(seg) ? 'keep' : 'skip';
+    const wanted: SegmentOverride = isKept(seg, current) ? 'skip' : 'keep';
+    const next = wanted === byRules ? others : { ...others, [key]: wanted };
+    setSegmentOverrides(next);
+    try {
+      saveSegmentOverrides(videoId, next);
+    } catch (e) {
+      console.warn("Could not save segment overrides:", e);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!videoFile || !analysisResult) return;
+    try {
+      const info = EXPORT_FORMATS.find(f => f.id === format)!;
+      const duration = await getMediaDuration(videoFile.file);
+      const content = serializeSegments(format, analysisResult, { fileName: videoFile.file.name, duration });
+      const baseName = videoFile.file.name.replace(/\.[^.]+$/, '');
+      downloadText(content, `${baseName}.${info.extension}`, info.mimeType);
+    } catch (err: any) {
+      setError(`Export failed. ${err.message || ''}`);
+    }
+  };
+
+  // Re-records only the kept ranges, in real time, entirely in the browser
+  const handleCondensedExport = async (audioOnly: boolean) => {
+    if (!videoFile || !analysisResult || exportAbortRef.current) return;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setCondensedExport({ audioOnly, progress: 0 });
+    setError(null);
+    try {
+      const { blob, extension } = await exportCondensedMedia(videoFile.file, analysisResult.segments, {
+        audioOnly,
+        signal: controller.signal,
+        onProgress: (progress) => setCondensedExport({ audioOnly, progress }),
+      });
+      const baseName = videoFile.file.name.replace(/\.[^.]+$/, '');
+      downloadBlob(blob, `${baseName}.condensed.${extension}`);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(`Condensed export failed. ${err.message || ''}`);
+    } finally {
+      exportAbortRef.current = null;
+      setCondensedExport(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const normalized = normalizeAnalysis(await parseSegmentsFile(file), { duration: mediaDuration || undefined });
+      setNormalizationNote(describeReport(normalized.report));
+      setAnalysisResult(normalized.result);
+      setAnalysisStatus(AnalysisStatus.COMPLETED);
+      setError(null);
+      storeActiveQueueResult(normalized.result);
+    } catch (err: any) {
+      setError(`Could not import ${file.name}. ${err.message || ''}`);
+    }
+  };
+
+  // force skips the cache lookup, e.g. when re-running from the library. A re-run uses the profile
+  // the replaced entry was made with, and removes that entry if the new result is stored under another key.
+  const startAnalysis = async (options: { force?: boolean; analyzerId?: string; replaces?: CachedAnalysis } = {}) => {
     if (!videoFile) return;
 
+    abortAnalysis();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    // Late callbacks from a cancelled or replaced run are ignored
+    const isCurrent = () => analysisAbortRef.current === controller;
+    const queueItem = queue.find(item => item.id === activeQueueId);
+    const claimedQueueId = queueItem?.status === AnalysisStatus.IDLE ? queueItem.id : null;
+    playerQueueIdRef.current = claimedQueueId;
+    const startedAt = Date.now();
+    setAnalysisRun({ startedAt, phaseStartedAt: startedAt, progress: null });
+
     setAnalysisStatus(AnalysisStatus.ANALYZING);
     setProgressMessage("Starting analysis...");
     setError(null);
+    setAnalyzedUntil(0);
+    setNormalizationNote('');
 
     try {
-      const result = await analyzeVideoContent(videoFile.file, (status) => {
-          setProgressMessage(status);
+      const run = await analyzeWithCache(videoFile.file, {
+          analyzer: getAnalyzer(options.analyzerId || analyzerId),
+          settings: analyzerSettings,
+          profile: options.replaces?.result.profile || skipProfile,
+          contentHash: videoFile.contentHash,
+          force: options.force,
+          duration: mediaDuration || undefined,
+          signal: controller.signal,
+          onProgress: (status) => isCurrent() && setProgressMessage(status),
+          onMeasuredProgress: (progress) => isCurrent() && setAnalysisRun(prev => prev && {
+            ...prev,
+            progress,
+            phaseStartedAt: prev.progress?.phase === progress.phase ? prev.phaseStartedAt : Date.now(),
+          }),
+          // Long videos stream in window by window; start watching the finished part right away
+          onPartial: (partial) => {
+            if (!isCurrent()) return;
+            setAnalysisResult(partial.result);
+            setAnalyzedUntil(partial.analyzedUntil);
+          },
       });
-      setAnalysisResult(result);
+      if (!isCurrent()) return;
+      if (!run.report) {
+        applyCachedAnalysis(run.entry!);
+        return;
+      }
+
+      setAnalysisResult(run.result);
+      setNormalizationNote(describeReport(run.report));
       setAnalysisStatus(AnalysisStatus.COMPLETED);
+      storeActiveQueueResult(run.result);
+
+      const entry = run.entry;
+      if (entry) {
+        const replaced = options.replaces?.id !== entry.id ? options.replaces : undefined;
+        if (replaced) {
+          await deleteCachedAnalysis(replaced.id).catch(e => console.warn("Could not remove the replaced analysis:", e));
+        }
+        setCachedMatches(prev => [entry, ...prev.filter(e => e.id !== entry.id && e.id !== replaced?.id)]);
+        if (showLibrary) refreshLibrary();
+      }
     } catch (err: any) {
-      setError(err.message || "Failed to analyze video. Please try again or check API key.");
+      if (!isCurrent()) return;
+      if (isCancelled(err)) {
+        setAnalysisStatus(AnalysisStatus.CANCELLED);
+        if (claimedQueueId) updateQueueItem(claimedQueueId, { status: AnalysisStatus.CANCELLED, progress: '' });
+        return;
+      }
+      const message = err.message || "Failed to analyze video. Please try again or check API key.";
+      setError(message);
       setAnalysisStatus(AnalysisStatus.ERROR);
+      if (claimedQueueId) updateQueueItem(claimedQueueId, { status: AnalysisStatus.ERROR, error: message, progress: '' });
+    } finally {
+      if (isCurrent()) {
+        analysisAbortRef.current = null;
+        playerQueueIdRef.current = null;
+        setAnalysisRun(null);
+      }
     }
   };
 
+  const updateQueueItem = (id: string, patch: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const addToQueue = (sources: (File | string)[]) => {
+    const items = sources.map(createQueueItem);
+    setQueue(prev => [...prev, ...items]);
+    setShowQueue(true);
+    return items;
+  };
+
+  // Results produced in the player (analysis, cache, edits) also belong to the queue item being played
+  const storeActiveQueueResult = (result: AnalysisResult) => {
+    if (activeQueueId) updateQueueItem(activeQueueId, { status: AnalysisStatus.COMPLETED, result, progress: '', error: undefined });
+  };
+
+  const playQueueItem = (item: QueueItem, autoPlayItem = true) => {
+    if (!item.file) return;
+    if (videoFile) URL.revokeObjectURL(videoFile.previewUrl);
+    loadVideo(item.file, item.url);
+    setActiveQueueId(item.id);
+    setAutoPlay(autoPlayItem);
+  };
+
+  // Downloads (for links) and analyzes one queue item with the current analyzer
+  const processQueueItem = async (item: QueueItem) => {
+    const controller = new AbortController();
+    runningQueueRef.current.add(item.id);
+    queueAbortRef.current.set(item.id, controller);
+    updateQueueItem(item.id, { status: AnalysisStatus.ANALYZING, progress: 'Starting analysis...', error: undefined, analyzedUntil: 0 });
+
+    let patch: Partial<QueueItem>;
+    try {
+      let file = item.file;
+      if (!file) {
+        file = await downloadVideo(item.url!, {
+          settings: downloadSettings,
+          signal: controller.signal,
+          onStatus: (status) => updateQueueItem(item.id, { progress: status }),
+          onProgress: (received, total) => updateQueueItem(item.id, {
+            progress: `Downloading ${formatMegabytes(received)}${total ? ` of ${formatMegabytes(total)}` : ''}...`,
+          }),
+        });
+        updateQueueItem(item.id, { file });
+      }
+      const duration = await getMediaDuration(file).catch(() => undefined);
+      const run = await analyzeWithCache(file, {
+        analyzer: getAnalyzer(analyzerId),
+        settings: analyzerSettings,
+        profile: skipProfile,
+        duration,
+        signal: controller.signal,
+        onProgress: (status) => updateQueueItem(item.id, { progress: status }),
+        onPartial: (partial) => updateQueueItem(item.id, { result: partial.result, analyzedUntil: partial.analyzedUntil }),
+      });
+      patch = { status: AnalysisStatus.COMPLETED, result: run.result, progress: '' };
+    } catch (err: any) {
+      patch = isCancelled(err)
+        ? { status: AnalysisStatus.CANCELLED, progress: '' }
+        : { status: AnalysisStatus.ERROR, error: err.message || 'Analysis failed', progress: '' };
+    }
+    runningQueueRef.current.delete(item.id);
+    queueAbortRef.current.delete(item.id);
+    updateQueueItem(item.id, patch);
+  };
+
+  // Starts queued items whenever a slot is free
+  useEffect(() => {
+    const free = queueConcurrency - runningQueueRef.current.size;
+    if (free <= 0) return;
+    queue
+      .filter(item => item.status === AnalysisStatus.IDLE && !runningQueueRef.current.has(item.id) && item.id !== playerQueueIdRef.current)
+      .slice(0, free)
+      .forEach(processQueueItem);
+  }, [queue, queueConcurrency]);
+
+  // Mirrors the background analysis of the queue item being played into the player
+  const activeQueueItem = queue.find(item => item.id === activeQueueId);
+  useEffect(() => {
+    if (!activeQueueItem) return;
+    if (activeQueueItem.status === AnalysisStatus.ANALYZING) {
+      setAnalysisStatus(AnalysisStatus.ANALYZING);
+      setProgressMessage(activeQueueItem.progress);
+      setAnalyzedUntil(activeQueueItem.analyzedUntil);
+      if (activeQueueItem.result) setAnalysisResult(activeQueueItem.result);
+    } else if (activeQueueItem.status === AnalysisStatus.COMPLETED && activeQueueItem.result) {
+      setAnalysisResult(activeQueueItem.result);
+      setAnalysisStatus(AnalysisStatus.COMPLETED);
+    } else if (activeQueueItem.status === AnalysisStatus.ERROR) {
+      setError(activeQueueItem.error || null);
+      setAnalysisStatus(AnalysisStatus.ERROR);
+    } else if (activeQueueItem.status === AnalysisStatus.CANCELLED) {
+      setAnalysisStatus(AnalysisStatus.CANCELLED);
+    }
+  }, [activeQueueItem, videoFile?.previewUrl]);
+
+  // The progress panel cancels whichever analysis feeds the player
+  const handleCancelAnalysis = () => {
+    if (activeQueueItem?.status === AnalysisStatus.ANALYZING) {
+      queueAbortRef.current.get(activeQueueItem.id)?.abort();
+    } else {
+      analysisAbortRef.current?.abort();
+    }
+  };
+
+  // Auto-advance to the next playable video once the current one ends
+  const handleEnded = () => {
+    const index = queue.findIndex(item => item.id === activeQueueId);
+    if (index < 0) return;
+    const next = queue.slice(index + 1).find(item => item.file && item.status !== AnalysisStatus.ERROR);
+    if (next) playQueueItem(next);
+  };
+
+  const handleQueueConcurrencyChange = (value: number) => {
+    setQueueConcurrency(value);
+    saveQueueConcurrency(value);
+  };
+
+  const handleRemoveQueueItem = (item: QueueItem) => {
+    queueAbortRef.current.get(item.id)?.abort();
+    setQueue(prev => prev.filter(i => i.id !== item.id));
+    if (item.id === activeQueueId) setActiveQueueId(null);
+  };
+
   return (
     <div className="min-h-screen bg-[#0f172a] text-gray-100 flex flex-col items-center py-12 px-4 sm:px-6 lg:px-8">
       {/* Header */}
@@ -150,6 +687,24 @@ const App: React.FC = () => {
           <br />
           <span className="text-sm text-gray-500">Gemini AI detects and skips the boring parts for you.</span>
         </p>
+        <button
+          onClick={toggleLibrary}
+          className={`text-xs px-3 py-1 rounded-full border transition-colors ${showLibrary ? 'border-blue-500 text-blue-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+        >
+          📚 Library
+        </button>
+        <button
+          onClick={toggleHistory}
+          className={`ml-2 text-xs px-3 py-1 rounded-full border transition-colors ${showHistory ? 'border-blue-500 text-blue-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+        >
+          📈 History
+        </button>
+        <button
+          onClick={() => setShowQueue(!showQueue)}
+          className={`ml-2 text-xs px-3 py-1 rounded-full border transition-colors ${showQueue ? 'border-blue-500 text-blue-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+        >
+          🎞️ Queue{queue.length > 0 ? ` (${queue.length})` : ''}
+        </button>
       </div>
 
       {/* Main Content Area */}
@@ -163,6 +718,49 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {showLibrary && (
+          <div className="mb-8">
+            <AnalysisLibrary
+              entries={libraryEntries}
+              currentHash={videoFile?.contentHash}
+              analyzerLabel={analyzerLabel}
+              onApply={applyCachedAnalysis}
+              onRerun={(entry) => startAnalysis({ force: true, analyzerId: entry.analyzerId, replaces: entry })}
+              onDelete={handleDeleteCached}
+              onClose={() => setShowLibrary(false)}
+            />
+          </div>
+        )}
+
+        {showHistory && (
+          <div className="mb-8">
+            <HistoryPanel
+              entries={historyEntries}
+              onClear={handleClearHistory}
+              onClose={() => setShowHistory(false)}
+            />
+          </div>
+        )}
+
+        {showQueue && (
+          <div className="mb-8">
+            <PlaylistQueue
+              items={queue}
+              activeId={activeQueueId}
+              concurrency={queueConcurrency}
+              analyzerLabel={analyzerLabel(analyzerId)}
+              onConcurrencyChange={handleQueueConcurrencyChange}
+              onAddFiles={addToQueue}
+              onAddUrl={(url) => addToQueue([url])}
+              onPlay={(item) => playQueueItem(item)}
+              onRetry={(item) => updateQueueItem(item.id, { status: AnalysisStatus.IDLE, error: undefined, progress: '' })}
+              onRemove={handleRemoveQueueItem}
+              onClearFinished={() => setQueue(prev => prev.filter(i => i.status !== AnalysisStatus.COMPLETED || i.id === activeQueueId))}
+              onClose={() => setShowQueue(false)}
+            />
+          </div>
+        )}
+
         {/* Upload / Input State */}
         {!videoFile && (
           <div className="w-full max-w-2xl mx-auto">
@@ -189,6 +787,7 @@ const App: React.FC = () => {
                     <input 
                     type="file" 
                     accept="video/*,audio/*" 
+                    multiple
                     onChange={handleFileUpload} 
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                     />
@@ -198,7 +797,7 @@ const App: React.FC = () => {
                     </div>
                     <div>
                         <p className="text-xl font-medium text-gray-200">Drop your video here</p>
-                        <p className="text-sm text-gray-500 mt-1">MP4, WEBM, MOV (No Size Limit)</p>
+                        <p className="text-sm text-gray-500 mt-1">MP4, WEBM, MOV (No Size Limit) · pick several to queue them</p>
                     </div>
                     </div>
                 </div>
@@ -222,6 +821,20 @@ const App: React.FC = () => {
                         </div>
                         <p className="text-xs text-gray-500 ml-1">
                            Supports direct files and YouTube links. Large videos are automatically chunked.
+                           <button
+                               type="button"
+                               onClick={() => setShowResolvers(!showResolvers)}
+                               className="ml-2 text-gray-400 hover:text-white underline-offset-2 hover:underline transition-colors"
+                           >
+                               {showResolvers ? 'Hide resolvers' : 'YouTube resolvers'}
+                           </button>
+                           <button
+                               type="button"
+                               onClick={() => setShowDownloadSettings(!showDownloadSettings)}
+                               className="ml-2 text-gray-400 hover:text-white underline-offset-2 hover:underline transition-colors"
+                           >
+                               {showDownloadSettings ? 'Hide download options' : 'Download options'}
+                           </button>
                         </p>
                       </div>
                       
@@ -243,7 +856,42 @@ const App: React.FC = () => {
                             <>Load Video</>
                         )}
                       </button>
+                      {isDownloading && (
+                        <div className="flex items-center gap-3 text-xs text-gray-400">
+                            <div className="flex-1 h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                                {downloadProgress?.total ? (
+                                    <div className="h-full bg-red-500 transition-all" style={{ width: `${(downloadProgress.received / downloadProgress.total) * 100}%` }} />
+                                ) : (
+                                    <div className="h-full w-1/3 bg-red-500/60 animate-pulse" />
+                                )}
+                            </div>
+                            {downloadProgress && (
+                                <span className="font-mono">
+                                    {formatMegabytes(downloadProgress.received)}{downloadProgress.total ? ` / ${formatMegabytes(downloadProgress.total)}` : ''}
+                                </span>
+                            )}
+                            <button
+                                type="button"
+                                onClick={() => downloadAbortRef.current?.abort()}
+                                className="px-2 py-1 rounded border border-gray-700 hover:text-red-300 hover:border-red-700 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                      )}
                    </form>
+                   {showDownloadSettings && (
+                       <DownloadSettings settings={downloadSettings} onChange={handleDownloadSettingsChange} />
+                   )}
+                   {showResolvers && (
+                       <ResolverSettings
+                           settings={resolverSettings}
+                           health={resolverHealth}
+                           failures={resolverFailures}
+                           onChange={handleResolverSettingsChange}
+                           onResetHealth={handleResetResolverHealth}
+                       />
+                   )}
                 </div>
              )}
           </div>
@@ -272,30 +920,97 @@ const App: React.FC = () => {
                 </button>
             </div>
 
-            <VideoPlayer 
-                src={videoFile.previewUrl}
-                skipSegments={analysisResult?.segments || []}
-                isAnalyzing={analysisStatus === AnalysisStatus.ANALYZING}
-            />
+            <div className="flex flex-col lg:flex-row gap-4">
+                <div className="flex-1 min-w-0">
+                    <VideoPlayer 
+                        ref={playerRef}
+                        src={videoFile.previewUrl}
+                        title={videoFile.file.name.replace(/\.[^.]+$/, '')}
+                        skipSegments={analysisResult?.segments || []}
+                        chapters={analysisResult?.chapters}
+                        segmentOverrides={segmentOverrides}
+                        isAnalyzing={analysisStatus === AnalysisStatus.ANALYZING}
+                        analyzedUntil={analyzedUntil}
+                        analyzerLabel={analyzerLabel(analyzerId)}
+                        onSegmentsChange={handleSegmentsChange}
+                        onSettingsChange={setPlaybackSettings}
+                        onTimeSaved={handleTimeSaved}
+                        onTimeUpdate={handlePlayerTime}
+                        onEnded={handleEnded}
+                        autoPlay={autoPlay}
+                        defaultMode={sharedPlayback?.mode}
+                        defaultPlaybackRate={sharedPlayback?.playbackRate}
+                        startTime={sharedPlayback?.startTime}
+                    />
+                </div>
+
+                {analysisResult?.transcript && analysisResult.transcript.length > 0 && (
+                    <div className="lg:w-80 flex-shrink-0">
+                        <TranscriptPanel
+                            lines={analysisResult.transcript}
+                            segments={analysisResult.segments}
+                            currentTime={playerTime}
+                            onSeek={(time) => playerRef.current?.seek(time)}
+                        />
+                    </div>
+                )}
+            </div>
 
             {/* Analysis Prompt / Summary Area */}
-            {analysisStatus === AnalysisStatus.IDLE && (
-                <div className="flex justify-center mt-8">
+            {analysisStatus === AnalysisStatus.IDLE && cachedMatches.length > 0 && (
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-3 mt-6 p-4 rounded-xl bg-green-900/20 border border-green-800 text-sm">
+                    <span className="text-green-300">
+                        Cached analysis available from {analyzerLabel(cachedMatches[0].analyzerId)} ({new Date(cachedMatches[0].createdAt).toLocaleDateString()}, {cachedMatches[0].result.segments.length} segments)
+                    </span>
                     <button
-                        onClick={startAnalysis}
-                        className="group relative inline-flex items-center justify-center px-8 py-3 font-semibold text-white transition-all duration-200 bg-blue-600 rounded-full hover:bg-blue-700 hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-600 focus:ring-offset-gray-900 shadow-lg shadow-blue-900/20"
+                        onClick={() => applyCachedAnalysis(cachedMatches[0])}
+                        className="px-4 py-1.5 rounded-lg bg-green-700 hover:bg-green-600 text-white font-medium transition-colors"
                     >
-                         <BrainCircuitIcon className="w-5 h-5 mr-2" />
-                         Analyze & Detect "Fluff"
+                        Use cached skips
                     </button>
                 </div>
             )}
+
+            {analysisStatus === AnalysisStatus.CANCELLED && (
+                <p className="mt-6 text-center text-sm text-gray-400">
+                    Analysis cancelled.{analysisResult && analysisResult.segments.length > 0 && ' Skips found so far stay active.'}
+                </p>
+            )}
+
+            {(analysisStatus === AnalysisStatus.IDLE || analysisStatus === AnalysisStatus.CANCELLED) && (
+                <div className="flex justify-center mt-8">
+                    <AnalyzerPicker
+                        analyzers={listAnalyzers()}
+                        selectedId={analyzerId}
+                        settings={analyzerSettings}
+                        onSelect={handleAnalyzerChange}
+                        onSettingsChange={handleAnalyzerSettingsChange}
+                        profiles={skipProfiles}
+                        profileId={skipProfile.id}
+                        onProfileSelect={handleProfileSelect}
+                        onProfilesChange={handleProfilesChange}
+                        onAnalyze={() => startAnalysis()}
+                    />
+                </div>
+            )}
+
+            {analysisStatus !== AnalysisStatus.ANALYZING && (
+                <div className="flex justify-center">
+                    <label className="text-xs text-gray-500 hover:text-white cursor-pointer transition-colors">
+                        <input type="file" accept=".json,.vtt,.srt,.edl" onChange={handleImport} className="hidden" />
+                        or import skips from JSON, WebVTT, SRT or EDL
+                    </label>
+                </div>
+            )}
             
             {analysisStatus === AnalysisStatus.ANALYZING && (
-                <div className="flex flex-col items-center justify-center mt-6 p-4 rounded-lg bg-gray-800/30">
-                    <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mb-3"></div>
-                    <p className="text-blue-300 text-sm font-medium animate-pulse">{progressMessage || "Analyzing..."}</p>
-                </div>
+                <AnalysisProgressPanel
+                    message={progressMessage}
+                    progress={analysisRun?.progress}
+                    startedAt={analysisRun?.startedAt}
+                    phaseStartedAt={analysisRun?.phaseStartedAt}
+                    onCancel={handleCancelAnalysis}
+                />
             )}
 
             {analysisResult && (
@@ -306,18 +1021,126 @@ const App: React.FC = () => {
                     <p className="text-gray-300 leading-relaxed">
                         {analysisResult.summary}
                     </p>
+                    {analysisResult.profile && (
+                        <p className="mt-2 text-xs text-gray-500" title={analysisResult.profile.instructions || undefined}>
+                            Skip profile: {analysisResult.profile.name}
+                        </p>
+                    )}
+                    {normalizationNote && (
+                        <p className="mt-2 text-xs text-gray-500" title="Changes made to the analyzer output before playback">
+                            Cleaned up: {normalizationNote}
+                        </p>
+                    )}
+                    {analysisResult.chapters && analysisResult.chapters.length > 0 && (
+                        <div className="mt-4 pt-4 border-t border-gray-700">
+                            <h4 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-3">Chapters</h4>
+                            <ol className="space-y-1">
+                                {analysisResult.chapters.map((chapter, i) => (
+                                    <li key={i}>
+                                        <button
+                                            onClick={() => playerRef.current?.seek(chapter.start)}
+                                            className={`w-full flex items-baseline gap-3 px-2 py-1.5 rounded text-left transition-colors ${
+                                                i === chapterIndexAt(analysisResult.chapters!, playerTime) ? 'bg-blue-900/30 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+                                            }`}
+                                        >
+                                            <span className="text-xs font-mono text-gray-500 w-12 flex-shrink-0">
+                                                {formatClock(chapter.start)}
+                                            </span>
+                                            <span className="min-w-0">
+                                                <span className="text-sm font-medium">{chapter.title}</span>
+                                                {chapter.description && <span className="block text-xs text-gray-500">{chapter.description}</span>}
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
                     <div className="mt-4 pt-4 border-t border-gray-700">
-                        <h4 className="text-sm font-medium text-gray-400 mb-3 uppercase tracking-wider">Detected Skips</h4>
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                            <h4 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Detected Skips</h4>
+                            <div className="flex items-center gap-1">
+                                <span className="text-xs text-gray-500 mr-1">Export</span>
+                                {EXPORT_FORMATS.map(format => (
+                                    <button
+                                        key={format.id}
+                                        onClick={() => handleExport(format.id)}
+                                        className="px-2 py-1 text-xs rounded border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+                                    >
+                                        {format.label}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={handleShare}
+                                    disabled={!canShareSource(videoFile.sourceUrl)}
+                                    title={canShareSource(videoFile.sourceUrl)
+                                        ? 'Copy a link with the video link, these skips and the current mode, speed and position'
+                                        : 'Only videos loaded from a link can be shared'}
+                                    className="ml-2 px-2 py-1 text-xs rounded border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-40"
+                                >
+                                    {shareCopied ? 'Link copied' : 'Share link'}
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-gray-500">
+                            {condensedExport ? (
+                                <>
+                                    <span>Recording condensed {condensedExport.audioOnly ? 'audio' : 'video'}…</span>
+                                    <div className="flex-1 min-w-[120px] h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${condensedExport.progress * 100}%` }} />
+                                    </div>
+                                    <span className="font-mono text-gray-400">{Math.round(condensedExport.progress * 100)}%</span>
+                                    <button
+                                        onClick={() => exportAbortRef.current?.abort()}
+                                        className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-red-300 hover:border-red-700 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                </>
+                            ) : (
+                                <>
+                                    <span title="Plays the kept parts once in the background and records them; nothing is uploaded">Download condensed</span>
+                                    <button
+                                        onClick={() => handleCondensedExport(false)}
+                                        disabled={analysisStatus === AnalysisStatus.ANALYZING}
+                                        className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-40"
+                                    >
+                                        Video
+                                    </button>
+                                    <button
+                                        onClick={() => handleCondensedExport(true)}
+                                        disabled={analysisStatus === AnalysisStatus.ANALYZING}
+                                        className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-40"
+                                    >
+                                        Audio only
+                                    </button>
+                                </>
+                            )}
+                        </div>
                         <div className="flex flex-wrap gap-2">
-                            {analysisResult.segments.slice(0, 5).map((seg, i) => (
-                                <span key={i} className="px-3 py-1 bg-gray-900 rounded border border-gray-700 text-xs text-gray-400">
-                                    {Math.floor(seg.start)}s - {Math.floor(seg.end)}s ({seg.reason})
-                                </span>
-                            ))}
+                            {(showAllSkips ? analysisResult.segments : analysisResult.segments.slice(0, 5)).map((seg, i) => {
+                                const override = segmentOverrides[segmentKey(seg)];
+                                const kept = isKept(seg, override);
+                                return (
+                                    <button
+                                        key={i}
+                                        onClick={() => handleToggleSegment(seg)}
+                                        className={`px-3 py-1 bg-gray-900 rounded border text-xs transition-colors ${
+                                            override ? 'border-blue-700' : 'border-gray-700'
+                                        } ${kept ? 'text-gray-600 line-through hover:text-gray-400' : 'text-gray-400 hover:text-white'}`}
+                                        title={`${kept ? 'Kept' : 'Skipped'}${override ? ' (your choice, remembered for this video)' : ' by the skip rules'}. Click to ${kept ? 'skip' : 'keep'} it.`}
+                                    >
+                                        {Math.floor(seg.start)}s - {Math.floor(seg.end)}s ({seg.reason})
+                                    </button>
+                                );
+                            })}
                             {analysisResult.segments.length > 5 && (
-                                <span className="px-3 py-1 bg-gray-900 rounded border border-gray-700 text-xs text-gray-500">
-                                    +{analysisResult.segments.length - 5} more
-                                </span>
+                                <button
+                                    onClick={() => setShowAllSkips(!showAllSkips)}
+                                    className="px-3 py-1 bg-gray-900 rounded border border-gray-700 text-xs text-gray-500 hover:text-white transition-colors"
+                                >
+                                    {showAllSkips ? 'Show less' : `+${analysisResult.segments.length - 5} more`}
+                                </button>
                             )}
                             {analysisResult.segments.length === 0 && (
                                 <span className="text-gray-500 italic text-sm">No significant silence or filler detected. Good job!</span>
@@ -326,6 +1149,15 @@ const App: React.FC = () => {
                     </div>
                 </div>
             )}
+
+            {analysisResult && playbackSettings && mediaDuration > 0 && (
+                <StatsPanel
+                    segments={analysisResult.segments}
+                    duration={mediaDuration}
+                    settings={playbackSettings}
+                    overrides={segmentOverrides}
+                />
+            )}
           </div>
         )}
       </div>
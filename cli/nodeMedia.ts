@@ -0,0 +1,81 @@
+import { execFile } from 'node:child_process';
+import { openAsBlob } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+};
+
+const mimeTypeOf = (filePath: string) => MEDIA_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+
+// Wraps a file on disk in a File, the type the analyzers take. The blob is read lazily,
+// so multi-gigabyte recordings are not loaded into memory up front.
+export const readMediaFile = async (filePath: string): Promise<File> => {
+  const blob = await openAsBlob(filePath, { type: mimeTypeOf(filePath) });
+  return new File([blob], path.basename(filePath), { type: blob.type });
+};
+
+// Node has no media elements; ffprobe fills in when it is installed. undefined otherwise.
+export const probeDuration = (filePath: string): Promise<number | undefined> => {
+  return new Promise(resolve => {
+    execFile(
+      'ffprobe',
+      ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath],
+      (error, stdout) => {
+        const duration = Number.parseFloat(stdout);
+        resolve(!error && Number.isFinite(duration) && duration > 0 ? duration : undefined);
+      }
+    );
+  });
+};
+
+// Whether ffprobe is installed at all, checked once before providers that need media lengths run
+export const hasFfprobe = (): Promise<boolean> => {
+  return new Promise(resolve => {
+    execFile('ffprobe', ['-version'], error => resolve(!error));
+  });
+};
+
+// Expands the command line inputs: files are taken as given, directories are scanned for media files.
+export const collectMediaFiles = async (inputs: string[], recursive: boolean): Promise<string[]> => {
+  const files: string[] = [];
+
+  const scan = async (dir: string) => {
+    const entries = (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive) await scan(fullPath);
+      } else if (entry.isFile() && MEDIA_TYPES[path.extname(entry.name).toLowerCase()]) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  for (const input of inputs) {
+    let info;
+    try {
+      info = await stat(input);
+    } catch {
+      throw new Error(`No such file or directory: ${input}`);
+    }
+    if (info.isDirectory()) {
+      await scan(input);
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
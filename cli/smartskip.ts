@@ -0,0 +1,232 @@
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { AnalysisResult, AnalyzerSettings } from '../types';
+import { DEFAULT_ANALYZER_SETTINGS, getAnalyzer, listAnalyzers, runAnalyzer } from '../services/analyzerRegistry';
+import { mapWithConcurrency } from '../services/chunkingService';
+import { describeReport } from '../services/normalizeService';
+import { EXPORT_FORMATS, ExportFormat, serializeSegments } from '../services/segmentFormatService';
+import { collectMediaFiles, hasFfprobe, probeDuration, readMediaFile } from './nodeMedia';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;  // Every file failed
+const EXIT_USAGE = 2;   // Bad arguments or no media files found
+const EXIT_PARTIAL = 3; // Some files failed
+
+// Decodes audio with Web Audio, which Node does not have
+const BROWSER_ONLY_PROVIDERS = ['silence'];
+// Cannot work without the media length, which only ffprobe knows under Node
+const DURATION_PROVIDERS = ['fixture'];
+
+const cliAnalyzers = () => listAnalyzers().filter(a => !BROWSER_ONLY_PROVIDERS.includes(a.id));
+
+const USAGE = `Usage: smartskip analyze <file|directory>... [options]
+
+Options:
+  -f, --format <id>      ${EXPORT_FORMATS.map(f => f.id).join(' | ')} (default: json)
+  -p, --provider <id>    ${cliAnalyzers().map(a => a.id).join(' | ')} (default: gemini)
+  -o, --out <path>       Output file for a single input, output directory for several
+                         (subdirectories are kept). "-" prints to stdout. Default: stdout
+                         for a single file, next to each input for a batch.
+  -r, --recursive        Also scan subdirectories
+  -j, --jobs <n>         Files analyzed at the same time (default: 1)
+      --model <name>     Gemini model (default: ${DEFAULT_ANALYZER_SETTINGS.geminiModel})
+      --window <min>     Gemini window length in minutes for long recordings
+      --parallel <n>     Gemini windows analyzed at the same time
+      --endpoint <url>   Endpoint for the http provider
+  -q, --quiet            No progress output on stderr
+  -h, --help             Show this help
+
+The gemini provider reads its key from GEMINI_API_KEY or API_KEY. Durations are read
+with ffprobe when it is installed; without it long recordings are analyzed in one pass
+and the fixture provider cannot run.
+
+Exit codes: 0 all files analyzed, 1 all failed, 2 usage error or no media found,
+3 some files failed.
+`;
+
+const exitWithUsage = (message: string): never => {
+  console.error(`smartskip: ${message}\n\n${USAGE}`);
+  process.exit(EXIT_USAGE);
+};
+
+const positiveInt = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) exitWithUsage(`--${name} must be a positive whole number`);
+  return n;
+};
+
+// Without ffprobe the media length is unknown; the end of the last skip is the best guess we have.
+const fallbackDuration = (result: AnalysisResult) => result.segments.reduce((max, seg) => Math.max(max, seg.end), 0);
+
+// Deepest directory that contains all of `dirs` (absolute paths)
+const commonDirectory = (dirs: string[]) => dirs.reduce((common, dir) => {
+  while (common !== path.dirname(common) && path.relative(common, dir).split(path.sep)[0] === '..') {
+    common = path.dirname(common);
+  }
+  return common;
+});
+
+const isDirectory = async (target: string) => {
+  try {
+    return (await stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'json' },
+        provider: { type: 'string', short: 'p', default: 'gemini' },
+        out: { type: 'string', short: 'o' },
+        recursive: { type: 'boolean', short: 'r', default: false },
+        jobs: { type: 'string', short: 'j' },
+        model: { type: 'string' },
+        window: { type: 'string' },
+        parallel: { type: 'string' },
+        endpoint: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (e: any) {
+    return exitWithUsage(e.message);
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  const [command, ...inputs] = positionals;
+  if (command !== 'analyze') exitWithUsage(command ? `Unknown command "${command}"` : 'Missing command');
+  if (inputs.length === 0) exitWithUsage('No input files or directories given');
+
+  const formatInfo = EXPORT_FORMATS.find(f => f.id === values.format);
+  if (!formatInfo) return exitWithUsage(`Unknown format "${values.format}"`);
+  const format: ExportFormat = formatInfo.id;
+
+  let analyzer;
+  try {
+    analyzer = getAnalyzer(values.provider!);
+  } catch (e: any) {
+    return exitWithUsage(e.message);
+  }
+  if (BROWSER_ONLY_PROVIDERS.includes(analyzer.id)) {
+    return exitWithUsage(`The ${analyzer.id} provider needs Web Audio and only runs in the browser`);
+  }
+  if (DURATION_PROVIDERS.includes(analyzer.id) && !await hasFfprobe()) {
+    return exitWithUsage(`The ${analyzer.id} provider needs media lengths; install ffprobe (part of FFmpeg) to use it`);
+  }
+
+  const jobs = positiveInt(values.jobs, 'jobs') || 1;
+  const windowMinutes = positiveInt(values.window, 'window');
+  const parallel = positiveInt(values.parallel, 'parallel');
+  const settings: AnalyzerSettings = {
+    ...DEFAULT_ANALYZER_SETTINGS,
+    geminiModel: values.model || DEFAULT_ANALYZER_SETTINGS.geminiModel,
+    geminiChunking: {
+      ...DEFAULT_ANALYZER_SETTINGS.geminiChunking,
+      ...(windowMinutes && { windowSeconds: windowMinutes * 60 }),
+      ...(parallel && { concurrency: parallel }),
+    },
+    httpEndpoint: values.endpoint || DEFAULT_ANALYZER_SETTINGS.httpEndpoint,
+  };
+
+  // The browser build bakes the key in as API_KEY; under Node it comes from the environment
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+  }
+
+  let files: string[];
+  try {
+    files = await collectMediaFiles(inputs, values.recursive!);
+  } catch (e: any) {
+    return exitWithUsage(e.message);
+  }
+  if (files.length === 0) exitWithUsage(`No media files found in ${inputs.join(', ')}`);
+
+  const batch = files.length > 1;
+  const out = values.out;
+  if (batch && out === '-') exitWithUsage('--out - only works with a single input file');
+  const outDir = batch ? out : out && out !== '-' && await isDirectory(out) ? out : undefined;
+  if (outDir) await mkdir(outDir, { recursive: true });
+
+  // Batches written to one directory keep their layout below the inputs' common directory,
+  // so a/x.mp4 and b/x.mp4 do not overwrite each other
+  const root = commonDirectory(files.map(f => path.dirname(path.resolve(f))));
+  const destinationFor = (filePath: string): string | null => {
+    const fileName = `${path.basename(filePath).replace(/\.[^.]+$/, '')}.${formatInfo.extension}`;
+    if (outDir) return path.join(outDir, path.relative(root, path.dirname(path.resolve(filePath))), fileName);
+    if (batch) return path.join(path.dirname(filePath), fileName);
+    return out && out !== '-' ? out : null; // null: stdout
+  };
+
+  // x.mp4 and x.mov still share a name; refuse before anything is analyzed
+  const claimed = new Map<string, string>();
+  for (const filePath of files) {
+    const destination = destinationFor(filePath);
+    if (!destination) continue;
+    const other = claimed.get(path.resolve(destination));
+    if (other) exitWithUsage(`${other} and ${filePath} would both be written to ${destination}`);
+    claimed.set(path.resolve(destination), filePath);
+  }
+
+  const results = await mapWithConcurrency(files, jobs, async (filePath) => {
+    const log = (message: string) => {
+      if (!values.quiet) console.error(`[${path.basename(filePath)}] ${message}`);
+    };
+
+    try {
+      const file = await readMediaFile(filePath);
+      const duration = await probeDuration(filePath);
+      const { result, report } = await runAnalyzer(analyzer, file, { settings, duration, onProgress: log });
+
+      if (!duration && (format === 'edl' || format === 'ffmpeg')) {
+        log('Media length unknown (ffprobe not found); the part after the last skip is left out');
+      }
+      const content = serializeSegments(format, result, {
+        fileName: file.name,
+        duration: duration || fallbackDuration(result),
+      });
+
+      const note = describeReport(report);
+      if (note) log(`Cleaned up: ${note}`);
+
+      const destination = destinationFor(filePath);
+      if (destination) {
+        await mkdir(path.dirname(destination), { recursive: true });
+        await writeFile(destination, content);
+        log(`${result.segments.length} segments -> ${destination}`);
+      } else {
+        process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+      }
+      return true;
+    } catch (e: any) {
+      console.error(`smartskip: ${filePath}: ${e.message || e}`);
+      return false;
+    }
+  });
+
+  const failed = results.filter(ok => !ok).length;
+  if (failed === 0) return EXIT_OK;
+  return failed === files.length ? EXIT_FAILED : EXIT_PARTIAL;
+};
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(`smartskip: ${error?.message || error}`);
+    process.exitCode = EXIT_FAILED;
+  }
+);
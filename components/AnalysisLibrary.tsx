@@ -0,0 +1,83 @@
+import React from 'react';
+import { CachedAnalysis } from '../types';
+import { formatMegabytes } from '../services/downloadService';
+import { XIcon } from './Icons';
+
+interface AnalysisLibraryProps {
+  entries: CachedAnalysis[];
+  currentHash?: string;
+  analyzerLabel: (id: string) => string;
+  onApply: (entry: CachedAnalysis) => void;
+  onRerun: (entry: CachedAnalysis) => void;
+  onDelete: (entry: CachedAnalysis) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  return formatMegabytes(bytes);
+};
+
+const AnalysisLibrary: React.FC<AnalysisLibraryProps> = ({ entries, currentHash, analyzerLabel, onApply, onRerun, onDelete, onClose }) => {
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-2xl">📚</span> Analysis Library
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500 italic text-sm">No cached analyses yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {entries.map(entry => {
+            const isCurrent = !!currentHash && entry.contentHash === currentHash;
+            return (
+              <li key={entry.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 truncate">
+                    {entry.fileName}
+                    {isCurrent && <span className="ml-2 text-xs text-green-400">loaded</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {analyzerLabel(entry.analyzerId)}{entry.result.profile && ` (${entry.result.profile.name})`} · {entry.result.segments.length} segments · {formatSize(entry.fileSize)} · {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs flex-shrink-0">
+                  <button
+                    onClick={() => onApply(entry)}
+                    disabled={!isCurrent}
+                    title={isCurrent ? 'Use these segments' : 'Load this file to use its segments'}
+                    className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-blue-300 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                  >
+                    Use
+                  </button>
+                  <button
+                    onClick={() => onRerun(entry)}
+                    disabled={!isCurrent}
+                    title={isCurrent ? 'Analyze again and replace this entry' : 'Load this file to re-run the analysis'}
+                    className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:border-purple-500 hover:text-purple-300 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                  >
+                    Re-run
+                  </button>
+                  <button
+                    onClick={() => onDelete(entry)}
+                    className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:border-red-500 hover:text-red-300 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisLibrary;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisProgress } from '../types';
+import { formatDuration } from '../services/statsService';
+import { formatMegabytes } from '../services/downloadService';
+
+interface AnalysisProgressPanelProps {
+  message: string;
+  progress?: AnalysisProgress | null;
+  startedAt?: number;      // Omitted when the analysis runs elsewhere (e.g. in the queue)
+  phaseStartedAt?: number; // Start of the current progress phase, for the estimate
+  onCancel: () => void;
+}
+
+const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ message, progress, startedAt, phaseStartedAt, onCancel }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fraction = progress && progress.total > 0 ? Math.min(1, progress.done / progress.total) : null;
+  // Extrapolates the current phase linearly; nothing to go on until its first step finished
+  const remaining = progress && phaseStartedAt && progress.done > 0 && progress.done < progress.total
+    ? ((now - phaseStartedAt) / progress.done) * (progress.total - progress.done) / 1000
+    : null;
+
+  return (
+    <div className="flex flex-col items-center justify-center mt-6 p-4 rounded-lg bg-gray-800/30">
+        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mb-3"></div>
+        <p className="text-blue-300 text-sm font-medium animate-pulse">{message || "Analyzing..."}</p>
+
+        {progress && fraction !== null && (
+            <div className="w-full max-w-sm mt-3">
+                <div className="h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${fraction * 100}%` }} />
+                </div>
+                <p className="mt-1 text-xs font-mono text-gray-500 text-center">
+                    {progress.phase === 'upload'
+                        ? `${formatMegabytes(progress.done)} / ${formatMegabytes(progress.total)} uploaded`
+                        : `${progress.done} of ${progress.total} parts analyzed`}
+                </p>
+            </div>
+        )}
+
+        {startedAt && (
+            <p className="mt-2 text-xs text-gray-500">
+                {formatDuration((now - startedAt) / 1000)} elapsed
+                {remaining !== null && ` · about ${formatDuration(remaining)} left${progress?.phase === 'upload' ? ' to upload' : ''}`}
+            </p>
+        )}
+
+        <button
+            onClick={onCancel}
+            className="mt-3 px-3 py-1 text-xs rounded border border-gray-700 text-gray-400 hover:text-red-300 hover:border-red-700 transition-colors"
+        >
+            Cancel
+        </button>
+    </div>
+  );
+};
+
+export default AnalysisProgressPanel;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { AnalyzerSettings, SkipAnalyzer, SkipProfile } from '../types';
+import { BrainCircuitIcon } from './Icons';
+import SkipProfilePicker from './SkipProfilePicker';
+
+interface AnalyzerPickerProps {
+  analyzers: SkipAnalyzer[];
+  selectedId: string;
+  settings: AnalyzerSettings;
+  onSelect: (id: string) => void;
+  onSettingsChange: (settings: AnalyzerSettings) => void;
+  profiles: SkipProfile[];
+  profileId: string;
+  onProfileSelect: (id: string) => void;
+  onProfilesChange: (profiles: SkipProfile[]) => void;
+  onAnalyze: () => void;
+}
+
+const inputClass = "px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const AnalyzerPicker: React.FC<AnalyzerPickerProps> = ({
+  analyzers, selectedId, settings, onSelect, onSettingsChange, profiles, profileId, onProfileSelect, onProfilesChange, onAnalyze,
+}) => {
+  const selected = analyzers.find(a => a.id === selectedId);
+
+  const updateChunking = (patch: Partial<AnalyzerSettings['geminiChunking']>) => {
+    onSettingsChange({ ...settings, geminiChunking: { ...settings.geminiChunking, ...patch } });
+  };
+
+  const updateSilence = (patch: Partial<AnalyzerSettings['silence']>) => {
+    onSettingsChange({ ...settings, silence: { ...settings.silence, ...patch } });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-2xl">
+      {/* Provider Picker */}
+      <div className="flex flex-wrap justify-center p-1 bg-gray-800/50 rounded-xl border border-gray-700">
+        {analyzers.map(analyzer => (
+          <button
+            key={analyzer.id}
+            onClick={() => onSelect(analyzer.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${selectedId === analyzer.id ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+            title={analyzer.description}
+          >
+            {analyzer.label}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <p className="text-xs text-gray-500 text-center">
+          {selected.description}
+          {selected.offline && <span className="ml-2 text-green-400">Runs offline</span>}
+        </p>
+      )}
+
+      {/* Provider Settings */}
+      {selectedId === 'gemini' && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            Model
+            <input
+              type="text"
+              value={settings.geminiModel}
+              onChange={(e) => onSettingsChange({ ...settings, geminiModel: e.target.value })}
+              className={`w-48 ${inputClass}`}
+            />
+          </label>
+          <label className="flex items-center gap-2" title="Longer videos are split into windows of this length">
+            Window
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.geminiChunking.windowSeconds / 60}
+              onChange={(e) => updateChunking({ windowSeconds: Math.max(1, Number(e.target.value)) * 60 })}
+              className={`w-14 ${inputClass}`}
+            />
+            min
+          </label>
+          <label className="flex items-center gap-2" title="Windows analyzed at the same time">
+            Parallel
+            <input
+              type="number"
+              min={1}
+              max={8}
+              step={1}
+              value={settings.geminiChunking.concurrency}
+              onChange={(e) => updateChunking({ concurrency: Math.min(8, Math.max(1, Number(e.target.value))) })}
+              className={`w-12 ${inputClass}`}
+            />
+          </label>
+        </div>
+      )}
+
+      {selectedId === 'http' && (
+        <label className="flex items-center gap-2 text-xs text-gray-400 w-full max-w-md">
+          Endpoint
+          <input
+            type="url"
+            value={settings.httpEndpoint}
+            onChange={(e) => onSettingsChange({ ...settings, httpEndpoint: e.target.value })}
+            placeholder="http://localhost:8787/analyze"
+            className={`flex-1 ${inputClass}`}
+          />
+        </label>
+      )}
+
+      {selectedId === 'silence' && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            Threshold
+            <input
+              type="number"
+              step={1}
+              max={0}
+              value={settings.silence.thresholdDb}
+              onChange={(e) => updateSilence({ thresholdDb: Number(e.target.value) })}
+              className={`w-16 ${inputClass}`}
+            />
+            dB
+          </label>
+          <label className="flex items-center gap-2">
+            Min
+            <input
+              type="number"
+              step={0.1}
+              min={0}
+              value={settings.silence.minDuration}
+              onChange={(e) => updateSilence({ minDuration: Number(e.target.value) })}
+              className={`w-16 ${inputClass}`}
+            />
+            s
+          </label>
+          <label className="flex items-center gap-2">
+            Padding
+            <input
+              type="number"
+              step={0.05}
+              min={0}
+              value={settings.silence.padding}
+              onChange={(e) => updateSilence({ padding: Number(e.target.value) })}
+              className={`w-16 ${inputClass}`}
+            />
+            s
+          </label>
+        </div>
+      )}
+
+      <SkipProfilePicker
+        profiles={profiles}
+        selectedId={profileId}
+        takesInstructions={selected?.followsInstructions ?? true}
+        onSelect={onProfileSelect}
+        onProfilesChange={onProfilesChange}
+      />
+
+      <button
+        onClick={onAnalyze}
+        className="group relative inline-flex items-center justify-center px-8 py-3 font-semibold text-white transition-all duration-200 bg-blue-600 rounded-full hover:bg-blue-700 hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-600 focus:ring-offset-gray-900 shadow-lg shadow-blue-900/20"
+      >
+        <BrainCircuitIcon className="w-5 h-5 mr-2" />
+        Analyze & Detect "Fluff"
+      </button>
+    </div>
+  );
+};
+
+export default AnalyzerPicker;
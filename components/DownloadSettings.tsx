@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { DownloadSettings as DownloadSettingsValue } from '../types';
+import { DEFAULT_DOWNLOAD_SETTINGS, PUBLIC_PROXIES } from '../services/downloadService';
+import { XIcon } from './Icons';
+
+interface DownloadSettingsProps {
+  settings: DownloadSettingsValue;
+  onChange: (settings: DownloadSettingsValue) => void;
+}
+
+const inputClass = "px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const DownloadSettings: React.FC<DownloadSettingsProps> = ({ settings, onChange }) => {
+  const [newProxy, setNewProxy] = useState('');
+
+  const addProxy = (e: React.FormEvent) => {
+    e.preventDefault();
+    const proxy = newProxy.trim();
+    if (!proxy) return;
+    // A proxy of your own is most likely the one you want tried first
+    onChange({ ...settings, proxies: [proxy, ...settings.proxies.filter(p => p !== proxy)] });
+    setNewProxy('');
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700 space-y-4 text-xs text-gray-400">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2" title="Request the link itself; works when the host sends CORS headers">
+          <input
+            type="checkbox"
+            checked={settings.direct}
+            onChange={(e) => onChange({ ...settings, direct: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Direct download
+        </label>
+        <label className="flex items-center gap-2" title="0 for no limit">
+          Max size
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={settings.maxMegabytes}
+            onChange={(e) => onChange({ ...settings, maxMegabytes: Math.max(0, Math.round(Number(e.target.value))) })}
+            className={`w-20 ${inputClass}`}
+          />
+          MB
+        </label>
+        <div className="flex-1" />
+        <button onClick={() => onChange({ ...settings, proxies: [] })} className="text-gray-500 hover:text-white transition-colors">
+          No proxies
+        </button>
+        <button onClick={() => onChange(DEFAULT_DOWNLOAD_SETTINGS)} className="text-gray-500 hover:text-white transition-colors">
+          Restore defaults
+        </button>
+      </div>
+
+      <div>
+        <p className="mb-1">Proxies, tried in order</p>
+        {settings.proxies.length === 0 ? (
+          <p className="italic text-gray-500">None: only direct downloads.</p>
+        ) : (
+          <ul className="divide-y divide-gray-800">
+            {settings.proxies.map(proxy => (
+              <li key={proxy} className="py-1.5 flex items-center gap-3">
+                <span className="font-mono text-gray-300 truncate flex-1 min-w-0" title={proxy}>{proxy}</span>
+                {PUBLIC_PROXIES.includes(proxy) && <span className="text-gray-500">public</span>}
+                <button
+                  onClick={() => onChange({ ...settings, proxies: settings.proxies.filter(p => p !== proxy) })}
+                  className="text-gray-500 hover:text-red-300 transition-colors"
+                  title="Remove"
+                >
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={addProxy} className="flex gap-2">
+        <input
+          type="text"
+          value={newProxy}
+          onChange={(e) => setNewProxy(e.target.value)}
+          placeholder="Your own proxy, e.g. http://localhost:8080/?url={url}"
+          className={`flex-1 min-w-0 ${inputClass} placeholder-gray-500`}
+        />
+        <button
+          type="submit"
+          disabled={!newProxy.includes('{url}') && !newProxy.includes('{raw}')}
+          title="The template needs {url} (encoded link) or {raw} (link as is)"
+          className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-blue-300 disabled:opacity-40 transition-colors"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DownloadSettings;
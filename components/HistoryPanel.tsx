@@ -0,0 +1,71 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { formatDuration } from '../services/statsService';
+import { XIcon } from './Icons';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onClear, onClose }) => {
+  const totalSaved = entries.reduce((acc, e) => acc + e.timeSaved, 0);
+  const totalDuration = entries.reduce((acc, e) => acc + e.duration, 0);
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-2xl">📈</span> Viewing History
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div className="p-3 bg-gray-900 rounded-lg border border-gray-700">
+          <p className="text-[10px] uppercase tracking-wider text-gray-500">Videos</p>
+          <p className="text-xl font-semibold text-gray-200">{entries.length}</p>
+        </div>
+        <div className="p-3 bg-gray-900 rounded-lg border border-gray-700">
+          <p className="text-[10px] uppercase tracking-wider text-gray-500">Total length</p>
+          <p className="text-xl font-semibold text-gray-200">{formatDuration(totalDuration)}</p>
+        </div>
+        <div className="p-3 bg-gray-900 rounded-lg border border-gray-700">
+          <p className="text-[10px] uppercase tracking-wider text-gray-500">Time saved</p>
+          <p className="text-xl font-semibold text-green-400">{formatDuration(totalSaved)}</p>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500 italic text-sm">Nothing watched with SmartSkip yet.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-700 max-h-72 overflow-y-auto">
+            {entries.map(entry => (
+              <li key={entry.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-200 truncate">{entry.fileName}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.lastWatched).toLocaleString()} · {formatDuration(entry.duration)}
+                  </p>
+                </div>
+                <span className="text-xs font-mono text-green-400 flex-shrink-0">−{formatDuration(entry.timeSaved)}</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onClear}
+            className="mt-4 text-xs text-gray-500 hover:text-red-300 transition-colors"
+          >
+            Clear history
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { AnalysisStatus, QueueItem } from '../types';
+import { MAX_QUEUE_CONCURRENCY } from '../services/queueService';
+import { PlayIcon, XIcon } from './Icons';
+
+interface PlaylistQueueProps {
+  items: QueueItem[];
+  activeId: string | null;
+  concurrency: number;
+  analyzerLabel: string;
+  onConcurrencyChange: (value: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onAddUrl: (url: string) => void;
+  onPlay: (item: QueueItem) => void;
+  onRetry: (item: QueueItem) => void;
+  onRemove: (item: QueueItem) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<AnalysisStatus, { label: string; className: string }> = {
+  [AnalysisStatus.IDLE]: { label: 'Queued', className: 'bg-gray-700 text-gray-300' },
+  [AnalysisStatus.ANALYZING]: { label: 'Analyzing', className: 'bg-blue-900/60 text-blue-300 animate-pulse' },
+  [AnalysisStatus.COMPLETED]: { label: 'Ready', className: 'bg-green-900/60 text-green-300' },
+  [AnalysisStatus.ERROR]: { label: 'Failed', className: 'bg-red-900/60 text-red-300' },
+  [AnalysisStatus.CANCELLED]: { label: 'Cancelled', className: 'bg-gray-700 text-gray-400' },
+};
+
+const PlaylistQueue: React.FC<PlaylistQueueProps> = ({
+  items, activeId, concurrency, analyzerLabel, onConcurrencyChange, onAddFiles, onAddUrl, onPlay, onRetry, onRemove, onClearFinished, onClose,
+}) => {
+  const [url, setUrl] = useState('');
+  const finished = items.filter(i => i.status === AnalysisStatus.COMPLETED).length;
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    if (files.length) onAddFiles(files);
+  };
+
+  const handleUrl = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    onAddUrl(url.trim());
+    setUrl('');
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="text-2xl">🎞️</span> Queue
+          {items.length > 0 && <span className="text-xs font-normal text-gray-500">{finished} of {items.length} ready</span>}
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4 text-xs">
+        <label className="px-3 py-1.5 rounded border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-blue-300 cursor-pointer transition-colors text-center">
+          <input type="file" accept="video/*,audio/*" multiple onChange={handleFiles} className="hidden" />
+          Add files
+        </label>
+        <form onSubmit={handleUrl} className="flex flex-1 gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="Add a YouTube or video link"
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!url.trim()}
+            className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-blue-300 disabled:opacity-40 transition-colors"
+          >
+            Add
+          </button>
+        </form>
+        <label className="flex items-center gap-2 text-gray-400" title={`Videos analyzed at the same time with ${analyzerLabel}`}>
+          Parallel
+          <input
+            type="number"
+            min={1}
+            max={MAX_QUEUE_CONCURRENCY}
+            step={1}
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Math.min(MAX_QUEUE_CONCURRENCY, Math.max(1, Math.round(Number(e.target.value)))))}
+            className="w-12 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white"
+          />
+        </label>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-gray-500 italic text-sm">Add files or links; they are analyzed in the background and play one after another.</p>
+      ) : (
+        <>
+          <ol className="divide-y divide-gray-700 max-h-80 overflow-y-auto">
+            {items.map((item, index) => {
+              const badge = STATUS_BADGES[item.status];
+              const isActive = item.id === activeId;
+              return (
+                <li key={item.id} className={`py-2 px-2 flex items-center gap-3 rounded ${isActive ? 'bg-blue-900/20' : ''}`}>
+                  <span className="text-xs font-mono text-gray-500 w-5 text-right">{index + 1}</span>
+                  <button
+                    onClick={() => onPlay(item)}
+                    disabled={!item.file}
+                    title={item.file ? 'Play this video' : 'Available once downloaded'}
+                    className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                  >
+                    <PlayIcon className="w-4 h-4 fill-current" />
+                  </button>
+                  <div className="min-w-0 flex-1">
+                    <p className={`text-sm truncate ${isActive ? 'text-white' : 'text-gray-200'}`}>{item.name}</p>
+                    <p className={`text-xs truncate ${item.status === AnalysisStatus.ERROR ? 'text-red-400' : 'text-gray-500'}`}>
+                      {item.status === AnalysisStatus.ERROR
+                        ? item.error
+                        : item.status === AnalysisStatus.COMPLETED
+                          ? `${item.result?.segments.length ?? 0} skipped segments`
+                          : item.progress || (item.status === AnalysisStatus.IDLE ? 'Waiting for a free slot' : '')}
+                    </p>
+                  </div>
+                  <span className={`text-[10px] px-2 py-0.5 rounded-full flex-shrink-0 ${badge.className}`}>{badge.label}</span>
+                  {(item.status === AnalysisStatus.ERROR || item.status === AnalysisStatus.CANCELLED) && (
+                    <button onClick={() => onRetry(item)} className="text-xs text-gray-400 hover:text-purple-300 transition-colors">
+                      Retry
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemove(item)}
+                    className="text-gray-500 hover:text-red-300 transition-colors"
+                    title={item.status === AnalysisStatus.ANALYZING ? 'Cancel and remove from queue' : 'Remove from queue'}
+                  >
+                    <XIcon className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+          {finished > 0 && (
+            <button onClick={onClearFinished} className="mt-3 text-xs text-gray-500 hover:text-white transition-colors">
+              Clear finished
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistQueue;
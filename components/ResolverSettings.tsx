@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ResolverAttempt, ResolverHealth, ResolverSettings as ResolverSettingsValue } from '../types';
+import { DEFAULT_RESOLVER_SETTINGS, healthScore, resolverHost } from '../services/youtubeService';
+import { XIcon } from './Icons';
+
+interface ResolverSettingsProps {
+  settings: ResolverSettingsValue;
+  health: Record<string, ResolverHealth>;
+  failures: ResolverAttempt[]; // From the last failed resolve, if any
+  onChange: (settings: ResolverSettingsValue) => void;
+  onResetHealth: () => void;
+}
+
+const inputClass = "px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const scoreColor = (score: number) => score >= 0.5 ? 'bg-green-500' : score >= 0.25 ? 'bg-amber-500' : 'bg-red-500';
+
+const ResolverSettings: React.FC<ResolverSettingsProps> = ({ settings, health, failures, onChange, onResetHealth }) => {
+  const [newInstance, setNewInstance] = useState('');
+
+  const addInstance = (e: React.FormEvent) => {
+    e.preventDefault();
+    const instance = newInstance.trim();
+    if (!instance) return;
+    try {
+      new URL(instance);
+    } catch {
+      return;
+    }
+    // Your own resolver is most likely the one you want tried first
+    onChange({ ...settings, instances: [instance, ...settings.instances.filter(i => i !== instance)] });
+    setNewInstance('');
+  };
+
+  const removeInstance = (instance: string) => {
+    onChange({ ...settings, instances: settings.instances.filter(i => i !== instance) });
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700 space-y-4 text-xs">
+      {failures.length > 0 && (
+        <div className="p-3 rounded-lg bg-red-900/20 border border-red-900">
+          <p className="text-red-300 font-medium mb-2">Every resolver failed:</p>
+          <ul className="space-y-1">
+            {failures.map(attempt => (
+              <li key={attempt.instance} className="flex gap-2 text-gray-400">
+                <span className="font-mono text-gray-300 truncate max-w-[180px]">{resolverHost(attempt.instance)}</span>
+                <span className="flex-1 min-w-0 truncate text-red-300/80" title={attempt.error}>{attempt.error}</span>
+                <span className="font-mono text-gray-500">{(attempt.ms / 1000).toFixed(1)}s</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-gray-400">
+        <label className="flex items-center gap-2" title="Give up on an instance after this long">
+          Timeout
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.timeoutMs / 1000}
+            onChange={(e) => onChange({ ...settings, timeoutMs: Math.max(1, Number(e.target.value)) * 1000 })}
+            className={`w-14 ${inputClass}`}
+          />
+          s
+        </label>
+        <label className="flex items-center gap-2" title="Instances asked at the same time; the fastest answer wins">
+          Parallel
+          <input
+            type="number"
+            min={1}
+            max={10}
+            step={1}
+            value={settings.parallel}
+            onChange={(e) => onChange({ ...settings, parallel: Math.min(10, Math.max(1, Math.round(Number(e.target.value)))) })}
+            className={`w-12 ${inputClass}`}
+          />
+        </label>
+        <div className="flex-1" />
+        <button onClick={onResetHealth} className="text-gray-500 hover:text-white transition-colors">Reset scores</button>
+        <button onClick={() => onChange(DEFAULT_RESOLVER_SETTINGS)} className="text-gray-500 hover:text-white transition-colors">Restore defaults</button>
+      </div>
+
+      <ul className="divide-y divide-gray-800">
+        {settings.instances.map(instance => {
+          const entry = health[instance];
+          const score = healthScore(entry, settings.timeoutMs);
+          return (
+            <li key={instance} className="py-1.5 flex items-center gap-3">
+              <div className="w-12 h-1.5 bg-gray-900 rounded-full overflow-hidden flex-shrink-0" title={`Health ${Math.round(score * 100)}`}>
+                <div className={`h-full ${scoreColor(score)}`} style={{ width: `${Math.max(5, score * 100)}%` }} />
+              </div>
+              <span className="font-mono text-gray-300 truncate flex-1 min-w-0" title={instance}>{instance}</span>
+              <span className="text-gray-500 flex-shrink-0">
+                {entry
+                  ? `${Math.round(entry.successRate * 100)}% ok${entry.latencyMs !== undefined ? ` · ${(entry.latencyMs / 1000).toFixed(1)}s` : ''}`
+                  : 'untried'}
+              </span>
+              {entry?.lastError && (
+                <span className="text-red-400/80 truncate max-w-[140px]" title={entry.lastError}>{entry.lastError}</span>
+              )}
+              <button onClick={() => removeInstance(instance)} className="text-gray-500 hover:text-red-300 transition-colors" title="Remove">
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={addInstance} className="flex gap-2">
+        <input
+          type="url"
+          value={newInstance}
+          onChange={(e) => setNewInstance(e.target.value)}
+          placeholder="Your own resolver, e.g. http://localhost:9000/"
+          className={`flex-1 min-w-0 ${inputClass} placeholder-gray-500`}
+        />
+        <button
+          type="submit"
+          disabled={!newInstance.trim()}
+          className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-blue-300 disabled:opacity-40 transition-colors"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ResolverSettings;
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { SkipSegment } from '../types';
+
+interface SegmentEditorProps {
+  segments: SkipSegment[];
+  duration: number;
+  currentTime: number;
+  onChange: (segments: SkipSegment[]) => void;
+  onSeek: (time: number) => void;
+}
+
+type DragMode = 'start' | 'end' | 'create';
+
+interface DragState {
+  mode: DragMode;
+  index: number;
+  anchor: number;
+  snapshot: SkipSegment[];
+}
+
+const MIN_LENGTH = 0.1;     // Seconds; shorter segments are dropped when a drag ends
+const CLICK_TOLERANCE = 0.2; // A "create" drag shorter than this is treated as a seek
+
+const sortSegments = (segments: SkipSegment[]) => [...segments].sort((a, b) => a.start - b.start);
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, duration, currentTime, onChange, onSeek }) => {
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const [selected, setSelected] = useState<number | null>(null);
+  const [past, setPast] = useState<SkipSegment[][]>([]);
+  const [future, setFuture] = useState<SkipSegment[][]>([]);
+
+  // Every committed edit goes through here so it can be undone
+  const commit = useCallback((next: SkipSegment[], previous: SkipSegment[] = segments) => {
+    setPast(p => [...p, previous]);
+    setFuture([]);
+    onChange(next);
+  }, [segments, onChange]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setFuture(f => [segments, ...f]);
+    setPast(p => p.slice(0, -1));
+    setSelected(null);
+    onChange(past[past.length - 1]);
+  }, [past, segments, onChange]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setPast(p => [...p, segments]);
+    setFuture(f => f.slice(1));
+    setSelected(null);
+    onChange(future[0]);
+  }, [future, segments, onChange]);
+
+  const timeAt = (clientX: number) => {
+    const rect = timelineRef.current!.getBoundingClientRect();
+    const pos = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return pos * duration;
+  };
+
+  const beginDrag = (e: React.PointerEvent, mode: DragMode, index: number) => {
+    if (!duration) return;
+    e.stopPropagation();
+    e.preventDefault();
+    dragRef.current = { mode, index, anchor: timeAt(e.clientX), snapshot: segments };
+    setSelected(mode === 'create' ? null : index);
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const time = timeAt(e.clientX);
+      const next = drag.snapshot.map(seg => ({ ...seg }));
+
+      if (drag.mode === 'create') {
+        next.push({ start: Math.min(drag.anchor, time), end: Math.max(drag.anchor, time), reason: 'Manual' });
+      } else {
+        const seg = next[drag.index];
+        if (drag.mode === 'start') seg.start = Math.min(time, seg.end - MIN_LENGTH);
+        else seg.end = Math.max(time, seg.start + MIN_LENGTH);
+      }
+      onChange(next);
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      dragRef.current = null;
+      const time = timeAt(e.clientX);
+
+      // Clicking a handle without moving it is not an edit
+      if (drag.mode !== 'create' && segments === drag.snapshot) return;
+
+      if (drag.mode === 'create' && Math.abs(time - drag.anchor) < CLICK_TOLERANCE) {
+        onChange(drag.snapshot);
+        onSeek(time);
+        return;
+      }
+
+      const edited = drag.mode === 'create'
+        ? [...drag.snapshot, { start: Math.min(drag.anchor, time), end: Math.max(drag.anchor, time), reason: 'Manual' }]
+        : segments;
+      const target = drag.mode === 'create' ? edited[edited.length - 1] : edited[drag.index];
+      const next = sortSegments(edited.filter(seg => seg.end - seg.start >= MIN_LENGTH));
+      commit(next, drag.snapshot);
+      const index = next.indexOf(target);
+      setSelected(index >= 0 ? index : null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  });
+
+  const deleteSelected = useCallback(() => {
+    if (selected === null) return;
+    commit(segments.filter((_, i) => i !== selected));
+    setSelected(null);
+  }, [selected, segments, commit]);
+
+  const splitAtPlayhead = () => {
+    const index = segments.findIndex(seg => currentTime > seg.start + MIN_LENGTH && currentTime < seg.end - MIN_LENGTH);
+    if (index < 0) return;
+    const seg = segments[index];
+    const next = [...segments];
+    next.splice(index, 1, { ...seg, end: currentTime }, { ...seg, start: currentTime });
+    commit(next);
+    setSelected(index + 1);
+  };
+
+  const renameSelected = (reason: string) => {
+    if (selected === null) return;
+    commit(segments.map((seg, i) => i === selected ? { ...seg, reason } : seg));
+  };
+
+  // Keyboard shortcuts while editing; ignored while typing anywhere on the page
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        deleteSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [undo, redo, deleteSelected]);
+
+  const selectedSegment = selected !== null ? segments[selected] : null;
+  const canSplit = segments.some(seg => currentTime > seg.start + MIN_LENGTH && currentTime < seg.end - MIN_LENGTH);
+  const toolClass = "px-3 py-1 text-xs rounded-md border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 disabled:opacity-40 disabled:pointer-events-none transition-colors";
+
+  return (
+    <div className="space-y-3">
+      {/* Editable Timeline */}
+      <div
+        ref={timelineRef}
+        className="relative h-8 bg-gray-800 rounded-md cursor-crosshair select-none touch-none"
+        onPointerDown={(e) => beginDrag(e, 'create', -1)}
+      >
+        {segments.map((seg, idx) => (
+          <div
+            key={idx}
+            className={`absolute top-0 h-full border-x-2 transition-colors ${idx === selected ? 'bg-purple-500/70 border-purple-200' : 'bg-purple-500/40 border-purple-400 hover:bg-purple-500/60'}`}
+            style={{
+              left: `${(seg.start / duration) * 100}%`,
+              width: `${((seg.end - seg.start) / duration) * 100}%`
+            }}
+            title={`${seg.reason} (${seg.start.toFixed(1)}s - ${seg.end.toFixed(1)}s)`}
+            onPointerDown={(e) => { e.stopPropagation(); setSelected(idx); }}
+          >
+            <div
+              className="absolute -left-1.5 top-0 h-full w-3 cursor-ew-resize"
+              onPointerDown={(e) => beginDrag(e, 'start', idx)}
+            />
+            <div
+              className="absolute -right-1.5 top-0 h-full w-3 cursor-ew-resize"
+              onPointerDown={(e) => beginDrag(e, 'end', idx)}
+            />
+          </div>
+        ))}
+
+        {/* Playhead */}
+        <div
+          className="absolute top-0 h-full w-0.5 bg-primary-400 pointer-events-none"
+          style={{ left: `${(currentTime / duration) * 100}%` }}
+        />
+      </div>
+
+      {/* Editor Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={undo} disabled={past.length === 0} className={toolClass} title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={redo} disabled={future.length === 0} className={toolClass} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <div className="h-5 w-px bg-gray-700 mx-1" />
+        <button onClick={splitAtPlayhead} disabled={!canSplit} className={toolClass} title="Split the segment under the playhead">Split</button>
+        <button onClick={deleteSelected} disabled={!selectedSegment} className={toolClass} title="Delete (Del)">Delete</button>
+        {selectedSegment ? (
+          <input
+            key={selected}
+            type="text"
+            defaultValue={selectedSegment.reason}
+            onBlur={(e) => e.target.value !== selectedSegment.reason && renameSelected(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            className="flex-1 min-w-[120px] px-2 py-1 text-xs bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+            placeholder="Reason"
+          />
+        ) : (
+          <span className="text-xs text-gray-500">Drag on the timeline to add a segment, drag edges to adjust.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { SkipCategory, SkipProfile } from '../types';
+import { AGGRESSIVENESS_LEVELS, createProfile } from '../services/profileService';
+import { CATEGORY_INFO, SKIP_CATEGORIES } from '../services/skipPolicyService';
+
+interface SkipProfilePickerProps {
+  profiles: SkipProfile[];
+  selectedId: string;
+  takesInstructions: boolean; // False for analyzers without a prompt; only excluded categories apply there
+  onSelect: (id: string) => void;
+  onProfilesChange: (profiles: SkipProfile[]) => void;
+}
+
+const inputClass = "px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const SkipProfilePicker: React.FC<SkipProfilePickerProps> = ({ profiles, selectedId, takesInstructions, onSelect, onProfilesChange }) => {
+  const [editing, setEditing] = useState(false);
+  const selected = profiles.find(p => p.id === selectedId) || profiles[0];
+
+  const update = (patch: Partial<SkipProfile>) => {
+    onProfilesChange(profiles.map(p => p.id === selected.id ? { ...p, ...patch } : p));
+  };
+
+  const toggleCategory = (category: SkipCategory) => {
+    const excluded = selected.excludedCategories;
+    update({ excludedCategories: excluded.includes(category) ? excluded.filter(c => c !== category) : [...excluded, category] });
+  };
+
+  const addProfile = () => {
+    const profile = createProfile(`Profile ${profiles.length + 1}`);
+    onProfilesChange([...profiles, profile]);
+    onSelect(profile.id);
+    setEditing(true);
+  };
+
+  const removeProfile = () => {
+    const rest = profiles.filter(p => p.id !== selected.id);
+    onProfilesChange(rest);
+    onSelect(rest[0].id);
+    setEditing(false);
+  };
+
+  return (
+    <div className="w-full max-w-md text-xs text-gray-400">
+      <div className="flex items-center justify-center gap-2">
+        <label className="flex items-center gap-2">
+          Skip profile
+          <select
+            value={selected.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className={inputClass}
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => setEditing(!editing)} className="text-gray-500 hover:text-white transition-colors">
+          {editing ? 'Done' : 'Edit'}
+        </button>
+        <button onClick={addProfile} className="text-gray-500 hover:text-white transition-colors">New</button>
+      </div>
+
+      {editing && (
+        <div className="mt-3 p-3 space-y-3 bg-gray-800/50 border border-gray-700 rounded-lg">
+          <label className="flex items-center gap-2">
+            Name
+            <input
+              type="text"
+              value={selected.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={`flex-1 ${inputClass}`}
+            />
+          </label>
+
+          <label className="block">
+            <span className="block mb-1">Extra instructions</span>
+            <textarea
+              value={selected.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              rows={3}
+              placeholder="e.g. Keep audience questions and their answers."
+              className={`w-full resize-y ${inputClass}`}
+            />
+            {!takesInstructions && (
+              <span className="block mt-1 text-gray-500">The selected analyzer takes no instructions; only the kept categories apply.</span>
+            )}
+          </label>
+
+          <div>
+            <span className="block mb-1">Always keep</span>
+            <div className="flex flex-wrap gap-2">
+              {SKIP_CATEGORIES.map(category => {
+                const kept = selected.excludedCategories.includes(category);
+                return (
+                  <button
+                    key={category}
+                    onClick={() => toggleCategory(category)}
+                    className={`px-2 py-0.5 rounded-full border transition-colors ${kept ? `border-gray-500 bg-gray-700 ${CATEGORY_INFO[category].textColor}` : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {CATEGORY_INFO[category].label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            Aggressiveness
+            <div className="flex p-0.5 bg-gray-900 rounded border border-gray-700">
+              {AGGRESSIVENESS_LEVELS.map(level => (
+                <button
+                  key={level.id}
+                  onClick={() => update({ aggressiveness: level.id })}
+                  className={`px-2 py-0.5 rounded transition-colors ${selected.aggressiveness === level.id ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-white'}`}
+                >
+                  {level.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {profiles.length > 1 && (
+            <button onClick={removeProfile} className="text-red-400/80 hover:text-red-300 transition-colors">
+              Delete profile
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkipProfilePicker;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { CrossfadeSettings, SkipPolicies, SkipPolicy, SpeedThroughSettings } from '../types';
+import { CATEGORY_INFO, SKIP_CATEGORIES, SPEED_THROUGH_RATES } from '../services/skipPolicyService';
+
+interface SkipRulesPanelProps {
+  policies: SkipPolicies;
+  minConfidence: number;
+  speedThrough: SpeedThroughSettings;
+  onSpeedThroughChange: (settings: SpeedThroughSettings) => void;
+  crossfade: CrossfadeSettings;
+  onCrossfadeChange: (settings: CrossfadeSettings) => void;
+  onPoliciesChange: (policies: SkipPolicies) => void;
+  onMinConfidenceChange: (value: number) => void;
+}
+
+const POLICY_OPTIONS: { id: SkipPolicy; label: string }[] = [
+  { id: 'skip', label: 'Skip' },
+  { id: 'speed', label: 'Speed' },
+  { id: 'ignore', label: 'Keep' },
+];
+
+const SkipRulesPanel: React.FC<SkipRulesPanelProps> = ({ policies, minConfidence, speedThrough, onSpeedThroughChange, crossfade, onCrossfadeChange, onPoliciesChange, onMinConfidenceChange }) => {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 p-3 bg-gray-800/60 border border-gray-700 rounded-lg">
+      {SKIP_CATEGORIES.map(category => (
+        <div key={category} className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-xs text-gray-300">
+            <span className={`w-2.5 h-2.5 rounded-sm ${CATEGORY_INFO[category].color}`} />
+            {CATEGORY_INFO[category].label}
+          </span>
+          <div className="flex items-center bg-gray-900 rounded-md p-0.5">
+            {POLICY_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => onPoliciesChange({ ...policies, [category]: option.id })}
+                className={`px-2 py-0.5 text-[10px] font-medium rounded transition-all ${
+                  policies[category] === option.id ? 'bg-gray-600 text-white' : 'text-gray-500 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <label className="sm:col-span-2 flex items-center gap-3 pt-2 mt-1 border-t border-gray-700 text-xs text-gray-400">
+        Min. confidence
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={minConfidence}
+          onChange={(e) => onMinConfidenceChange(Number(e.target.value))}
+          className="flex-1 accent-purple-500"
+        />
+        <span className="w-10 text-right font-mono text-gray-300">{Math.round(minConfidence * 100)}%</span>
+      </label>
+
+      <div className="sm:col-span-2 flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        Speed through at
+        <div className="flex items-center bg-gray-900 rounded-md p-0.5">
+          {SPEED_THROUGH_RATES.map(rate => (
+            <button
+              key={rate}
+              onClick={() => onSpeedThroughChange({ ...speedThrough, rate })}
+              className={`px-2 py-0.5 text-[10px] font-medium rounded transition-all ${
+                speedThrough.rate === rate ? 'bg-gray-600 text-white' : 'text-gray-500 hover:text-white'
+              }`}
+            >
+              {rate}x
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={speedThrough.muted}
+            onChange={(e) => onSpeedThroughChange({ ...speedThrough, muted: e.target.checked })}
+            className="accent-amber-500"
+          />
+          Mute while speeding
+        </label>
+      </div>
+
+      <div className="sm:col-span-2 flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={crossfade.enabled}
+            onChange={(e) => onCrossfadeChange({ ...crossfade, enabled: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Crossfade skips
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="number"
+            min={0}
+            max={500}
+            step={10}
+            value={crossfade.fadeMs}
+            disabled={!crossfade.enabled}
+            onChange={(e) => onCrossfadeChange({ ...crossfade, fadeMs: Math.min(500, Math.max(0, Number(e.target.value))) })}
+            className="w-14 px-1.5 py-0.5 bg-gray-900 border border-gray-700 rounded text-white disabled:opacity-40"
+          />
+          ms
+        </label>
+        <label className="flex items-center gap-1.5" title="Seconds at the start of a skipped segment that still play before the jump">
+          Pre-roll
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.05}
+            value={crossfade.preRoll}
+            onChange={(e) => onCrossfadeChange({ ...crossfade, preRoll: Math.min(2, Math.max(0, Number(e.target.value))) })}
+            className="w-14 px-1.5 py-0.5 bg-gray-900 border border-gray-700 rounded text-white"
+          />
+          s
+        </label>
+        <label className="flex items-center gap-1.5" title="Seconds at the end of a skipped segment that play after landing">
+          Post-roll
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.05}
+            value={crossfade.postRoll}
+            onChange={(e) => onCrossfadeChange({ ...crossfade, postRoll: Math.min(2, Math.max(0, Number(e.target.value))) })}
+            className="w-14 px-1.5 py-0.5 bg-gray-900 border border-gray-700 rounded text-white"
+          />
+          s
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SkipRulesPanel;
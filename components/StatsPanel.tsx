@@ -0,0 +1,69 @@
+import React from 'react';
+import { PlaybackSettings, SegmentOverrides, SkipSegment } from '../types';
+import { computeStats, formatDuration } from '../services/statsService';
+import { CATEGORY_INFO } from '../services/skipPolicyService';
+
+interface StatsPanelProps {
+  segments: SkipSegment[];
+  duration: number;
+  settings: PlaybackSettings;
+  overrides?: SegmentOverrides;
+}
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ segments, duration, settings, overrides }) => {
+  const stats = computeStats(segments, duration, settings, overrides);
+  const maxSaved = Math.max(stats.fromSpeedUp, ...stats.byCategory.map(c => c.seconds), 1);
+
+  const tiles = [
+    { label: 'Original', value: formatDuration(stats.original) },
+    { label: 'Condensed', value: formatDuration(stats.condensed) },
+    { label: `Watch time at ${settings.playbackRate}x`, value: formatDuration(stats.watchTime) },
+    { label: 'Time saved', value: formatDuration(stats.saved), highlight: true },
+  ];
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <span className="text-2xl">⏱️</span> Time Saved
+      </h3>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-3 bg-gray-900 rounded-lg border border-gray-700">
+            <p className="text-[10px] uppercase tracking-wider text-gray-500">{tile.label}</p>
+            <p className={`text-xl font-semibold ${tile.highlight ? 'text-green-400' : 'text-gray-200'}`}>{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {!settings.smartSkipEnabled && (
+        <p className="mt-3 text-xs text-gray-500 italic">Turn on Skip Filler, Speed Through or Smart x2 to save time on the detected segments.</p>
+      )}
+
+      {(stats.byCategory.length > 0 || stats.fromSpeedUp > 0) && (
+        <div className="mt-4 space-y-2">
+          {stats.byCategory.map(({ category, seconds }) => (
+            <div key={category} className="flex items-center gap-3 text-xs">
+              <span className={`w-24 ${CATEGORY_INFO[category].textColor}`}>{CATEGORY_INFO[category].label}</span>
+              <div className="flex-1 h-2 bg-gray-900 rounded-full overflow-hidden">
+                <div className={`h-full ${CATEGORY_INFO[category].color}`} style={{ width: `${(seconds / maxSaved) * 100}%` }} />
+              </div>
+              <span className="w-16 text-right font-mono text-gray-400">{formatDuration(seconds)}</span>
+            </div>
+          ))}
+          {stats.fromSpeedUp > 0 && (
+            <div className="flex items-center gap-3 text-xs">
+              <span className="w-24 text-blue-300">Speed-up</span>
+              <div className="flex-1 h-2 bg-gray-900 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500/60" style={{ width: `${(stats.fromSpeedUp / maxSaved) * 100}%` }} />
+              </div>
+              <span className="w-16 text-right font-mono text-gray-400">{formatDuration(stats.fromSpeedUp)}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsPanel;
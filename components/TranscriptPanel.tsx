@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SkipSegment, TranscriptLine } from '../types';
+import { formatClock } from '../services/statsService';
+
+interface TranscriptPanelProps {
+  lines: TranscriptLine[];
+  segments: SkipSegment[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+interface Piece {
+  text: string;
+  skipped: boolean;
+  match: boolean;
+}
+
+// Splits a line into runs of text that are skipped and/or match the search.
+// Lines only carry start and end times, so each word's time is estimated by spreading the words evenly.
+const splitLine = (line: TranscriptLine, segments: SkipSegment[], query: string): Piece[] => {
+  const { text } = line;
+  const skipped = new Array<boolean>(text.length).fill(false);
+  const matched = new Array<boolean>(text.length).fill(false);
+
+  const words = Array.from(text.matchAll(/\S+/g));
+  words.forEach((word, i) => {
+    const time = line.start + ((i + 0.5) / words.length) * (line.end - line.start);
+    if (segments.some(seg => time >= seg.start && time < seg.end)) {
+      skipped.fill(true, word.index!, word.index! + word[0].length);
+    }
+  });
+
+  if (query) {
+    const lower = text.toLowerCase();
+    for (let at = lower.indexOf(query); at !== -1; at = lower.indexOf(query, at + query.length)) {
+      matched.fill(true, at, at + query.length);
+    }
+  }
+
+  const pieces: Piece[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = pieces[pieces.length - 1];
+    if (last && last.skipped === skipped[i] && last.match === matched[i]) {
+      last.text += text[i];
+    } else {
+      pieces.push({ text: text[i], skipped: skipped[i], match: matched[i] });
+    }
+  }
+  return pieces;
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ lines, segments, currentTime, onSeek }) => {
+  const [search, setSearch] = useState('');
+  const listRef = useRef<HTMLUListElement>(null);
+  const activeRef = useRef<HTMLLIElement>(null);
+  const query = search.trim().toLowerCase();
+
+  const visible = useMemo(() => {
+    const indexed = lines.map((line, index) => ({ line, index }));
+    return query ? indexed.filter(({ line }) => line.text.toLowerCase().includes(query)) : indexed;
+  }, [lines, query]);
+
+  // Last line that has started; gaps between lines keep the previous one highlighted
+  let activeIndex = -1;
+  for (let i = 0; i < lines.length && lines[i].start <= currentTime; i++) activeIndex = i;
+
+  // Follow playback, but leave the scroll position alone while searching
+  useEffect(() => {
+    const list = listRef.current;
+    const active = activeRef.current;
+    if (query || !list || !active) return;
+    const top = active.offsetTop;
+    if (top < list.scrollTop || top + active.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - list.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex, query]);
+
+  return (
+    <div className="flex flex-col h-96 lg:h-[32rem] bg-gray-800/50 border border-gray-700 rounded-xl backdrop-blur-sm">
+      <div className="p-3 border-b border-gray-700 space-y-2">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <span>💬</span> Transcript
+        </h3>
+        <div className="flex items-center gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search transcript..."
+            className="flex-1 min-w-0 px-2 py-1 text-xs bg-gray-900 border border-gray-700 rounded text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {query && (
+            <span className="text-[10px] text-gray-500 whitespace-nowrap">
+              {visible.length} {visible.length === 1 ? 'line' : 'lines'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <ul ref={listRef} className="relative flex-1 overflow-y-auto p-2 space-y-0.5">
+        {visible.map(({ line, index }) => {
+          const isActive = index === activeIndex;
+          return (
+            <li
+              key={index}
+              ref={isActive ? activeRef : undefined}
+              onClick={() => onSeek(line.start)}
+              className={`flex gap-2 px-2 py-1 rounded cursor-pointer text-sm transition-colors ${
+                isActive ? 'bg-blue-900/40 text-white' : 'text-gray-400 hover:bg-gray-700/50 hover:text-gray-200'
+              }`}
+            >
+              <span className="text-[10px] font-mono text-gray-500 pt-0.5 flex-shrink-0">{formatClock(line.start)}</span>
+              <span>
+                {splitLine(line, segments, query).map((piece, i) => (
+                  <span
+                    key={i}
+                    className={`${piece.skipped ? 'line-through text-gray-600' : ''} ${piece.match ? 'bg-yellow-500/30 text-yellow-100 rounded-sm' : ''}`}
+                  >
+                    {piece.text}
+                  </span>
+                ))}
+              </span>
+            </li>
+          );
+        })}
+        {visible.length === 0 && (
+          <li className="px-2 py-4 text-xs text-gray-500 italic text-center">No lines match "{search.trim()}".</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -1,24 +1,158 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { SkipSegment } from '../types';
-import { PlayIcon, PauseIcon, BrainCircuitIcon, SparklesIcon, FastForwardIcon } from './Icons';
+import React, { useRef, useState, useEffect, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { Chapter, CrossfadeSettings, PlaybackSettings, SegmentOverrides, SkipMode, SkipPolicies, SkipSegment, SpeedThroughSettings } from '../types';
+import { CATEGORY_INFO, getCategory, loadCrossfade, loadMinConfidence, loadSkipPolicies, loadSpeedThrough, padSegment, resolvePolicy, saveCrossfade, segmentKey, saveMinConfidence, saveSkipPolicies, saveSpeedThrough } from '../services/skipPolicyService';
+import { AudioFader, getAudioFader } from '../services/audioFadeService';
+import { chapterIndexAt, nextChapterStart, previousChapterStart } from '../services/chapterService';
+import { captureFrame, claimMediaSession, MediaSessionHandlers, releaseMediaSession, setMediaSessionMetadata, setMediaSessionPlaying, setMediaSessionPosition } from '../services/mediaSessionService';
+import { condensedDuration, condensedTimeline, fromCondensedTime, toCondensedTime } from '../services/segmentUtils';
+import { createTimeSavedTracker, formatClock } from '../services/statsService';
+import SegmentEditor from './SegmentEditor';
+import SkipRulesPanel from './SkipRulesPanel';
+import { PlayIcon, PauseIcon, BrainCircuitIcon, SparklesIcon, FastForwardIcon, SkipBackIcon, SkipForwardIcon, MaximizeIcon, MinimizeIcon, PictureInPictureIcon } from './Icons';
 
-interface VideoPlayerProps {
+export interface VideoPlayerProps {
   src: string;
+  // CORS mode for the media request. Audio crossfades need it for media from other origins;
+  // without it they are left off there, since Web Audio would only get silence.
+  crossOrigin?: 'anonymous' | 'use-credentials';
+  title?: string;   // Shown in the OS media controls
+  artwork?: string; // Image for the OS media controls; a frame of the video when missing
   skipSegments: SkipSegment[];
+  chapters?: Chapter[];
+  segmentOverrides?: SegmentOverrides; // The viewer's keep/skip choices for this video
   isAnalyzing: boolean;
+  analyzerLabel?: string;
+  analyzedUntil?: number; // While analyzing, seconds from the start whose segments are already known
+  onSegmentsChange?: (segments: SkipSegment[]) => void;
+  onSettingsChange?: (settings: PlaybackSettings) => void;
+  onTimeSaved?: (seconds: number) => void; // Reported in batches while watching
+  onTimeUpdate?: (time: number) => void;
+  onEnded?: () => void;
+  autoPlay?: boolean; // Start as soon as a new source can play, e.g. when a playlist advances
+  defaultMode?: SkipMode;
+  defaultPlaybackRate?: number; // Starting speed when the speed is not controlled
+  startTime?: number; // Where a newly loaded source starts, e.g. from a shared link
+  playbackRate?: number; // Controlled speed; the player manages its own when left undefined
+  onPlaybackRateChange?: (rate: number) => void;
+  onSkip?: (segment: SkipSegment, action: 'skip' | 'speed') => void;
+  onSegmentEnter?: (segment: SkipSegment) => void; // Any detected segment, whatever its policy
+  onModeChange?: (mode: SkipMode) => void;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzing }) => {
+// Lets panels outside the player (e.g. the transcript) and embedding pages drive playback
+export interface VideoPlayerHandle {
+  seek: (time: number) => void;
+  play: () => void;
+  pause: () => void;
+}
+
+// Frame-to-frame gap worth bridging with a timer (a bit over one frame at 24fps)
+const BOUNDARY_LOOKAHEAD_MS = 50;
+
+// How long the skip toast stays up, long enough to reach its "Rewind & watch" button
+const SKIP_TOAST_MS = 4000;
+const REWIND_KEY = 'r';
+
+// Fullscreen controls fade out after this long without mouse movement
+const CONTROLS_HIDE_MS = 2500;
+// Headphone and lock screen seek buttons without an offset of their own
+const MEDIA_SEEK_SECONDS = 10;
+
+// Diagonal stripes mark segments that are played fast instead of jumped over
+const SPEED_STRIPES = 'repeating-linear-gradient(135deg, rgba(255,255,255,0.35) 0 3px, transparent 3px 7px)';
+
+interface NextBoundary {
+  time: number;
+  fadeOut: boolean; // A jump happens here, so the audio should be ramped down before it
+}
+
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ src, crossOrigin, title, artwork, skipSegments, chapters = [], segmentOverrides = {}, isAnalyzing, analyzerLabel = 'Gemini AI', analyzedUntil = 0, onSegmentsChange, onSettingsChange, onTimeSaved, onTimeUpdate, onEnded, autoPlay = false,
+  defaultMode = 'off', defaultPlaybackRate = 1.0, startTime, playbackRate: controlledRate, onPlaybackRateChange, onSkip, onSegmentEnter, onModeChange }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const progressBarRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Identifies this player to the Media Session, which pages with several players share
+  const sessionOwnerRef = useRef({});
+  const frameArtworkRef = useRef<string | null>(null); // Captured on first play when no artwork is given
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [playbackRate, setPlaybackRate] = useState(1.0);
-  const [smartSkipEnabled, setSmartSkipEnabled] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(controlledRate ?? defaultPlaybackRate);
+  const [smartSkipEnabled, setSmartSkipEnabled] = useState(defaultMode !== 'off');
   const [isSkipping, setIsSkipping] = useState(false);
   const [skipReason, setSkipReason] = useState<string | null>(null);
+  const [skipAction, setSkipAction] = useState<'skip' | 'speed'>('skip');
+  const skipToastTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [isEditing, setIsEditing] = useState(false);
+  const [policies, setPolicies] = useState<SkipPolicies>(loadSkipPolicies);
+  const [minConfidence, setMinConfidence] = useState<number>(loadMinConfidence);
+  const [showRules, setShowRules] = useState(false);
+  const [speedThroughEnabled, setSpeedThroughEnabled] = useState(defaultMode === 'speed');
+  const [speedThrough, setSpeedThrough] = useState<SpeedThroughSettings>(loadSpeedThrough);
+  const [crossfade, setCrossfade] = useState<CrossfadeSettings>(loadCrossfade);
+
+  // Web Audio gain stage for click-free skips, created on first play once crossfades are on
+  const faderRef = useRef<AudioFader | null>(null);
+  const fadingToRef = useRef<number | null>(null);
+
+  // Time saved compared to 1x, not yet reported through onTimeSaved
+  const [timeSaved] = useState(createTimeSavedTracker);
+  const onTimeSavedRef = useRef(onTimeSaved);
+  onTimeSavedRef.current = onTimeSaved;
+
+  const flushTimeSaved = useCallback(() => {
+    if (timeSaved.pending() > 0 && onTimeSavedRef.current) {
+      onTimeSavedRef.current(timeSaved.take());
+    }
+  }, [timeSaved]);
+
+  useEffect(() => flushTimeSaved, [flushTimeSaved]);
+
+  useEffect(() => {
+    if (onSettingsChange) {
+      onSettingsChange({ playbackRate, smartSkipEnabled, speedThroughEnabled, policies, minConfidence, speedThrough });
+    }
+    // onSettingsChange is deliberately not a dependency: parents usually pass a fresh closure
+  }, [playbackRate, smartSkipEnabled, speedThroughEnabled, policies, minConfidence, speedThrough]);
+
+  // Segment currently being played through at speedThrough.rate, if any
+  const speedingRef = useRef<SkipSegment | null>(null);
+
+  // Event props are read through a ref so the skip engine does not restart when they change
+  const eventsRef = useRef({ onSkip, onSegmentEnter });
+  eventsRef.current = { onSkip, onSegmentEnter };
+  const enteredRef = useRef<SkipSegment | null>(null);
+
+  // The last segment skipped or sped through, and the one "Rewind & watch" is letting play (by segmentKey)
+  const lastSkipRef = useRef<SkipSegment | null>(null);
+  const lastSkipCreditRef = useRef(0); // What that skip added to the time saved
+  const watchingRef = useRef<string | null>(null);
+
+  const mode: SkipMode = !smartSkipEnabled ? 'off' : speedThroughEnabled ? 'speed' : 'skip';
+  const reportedModeRef = useRef(mode);
+  useEffect(() => {
+    if (mode !== reportedModeRef.current) {
+      reportedModeRef.current = mode;
+      onModeChange?.(mode);
+    }
+  }, [mode]);
+
+  // Expects the detected segment itself, not a padded copy: overrides are looked up by its bounds
+  const policyFor = useCallback((seg: SkipSegment) => {
+    const key = segmentKey(seg);
+    if (watchingRef.current === key) return 'ignore';
+    return resolvePolicy(seg, policies, minConfidence, speedThroughEnabled, segmentOverrides[key]);
+  }, [policies, minConfidence, speedThroughEnabled, segmentOverrides]);
+
+  // Back to the user's speed and audio after a sped-through segment
+  const endSpeedThrough = useCallback(() => {
+    if (speedingRef.current && videoRef.current) {
+      speedingRef.current = null;
+      videoRef.current.playbackRate = playbackRate;
+      videoRef.current.muted = false;
+    }
+  }, [playbackRate]);
 
   // Toggle playback
   const togglePlay = useCallback(() => {
@@ -32,38 +166,249 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
     }
   }, [isPlaying]);
 
-  // Handle time update for progress bar and smart skipping
+  // Skip engine: applies the policy for `time` and returns the next boundary worth waiting for
+  // (the start of the next active segment, or the end of the one being sped through).
+  const applySkips = useCallback((time: number): NextBoundary | undefined => {
+    const video = videoRef.current;
+    if (!video) return undefined;
+    // A skip we just triggered is still in flight; stale frames would trigger it again
+    if (video.seeking) return undefined;
+
+    const entered = skipSegments.find(seg => time >= seg.start && time < seg.end) || null;
+    if (entered !== enteredRef.current) {
+      enteredRef.current = entered;
+      if (entered) eventsRef.current.onSegmentEnter?.(entered);
+    }
+
+    // A rewound segment plays normally until the playhead leaves it
+    if (watchingRef.current) {
+      const watching = skipSegments.find(seg => segmentKey(seg) === watchingRef.current);
+      if (!watching || time >= watching.end || time < watching.start - 1) watchingRef.current = null;
+    }
+
+    // Never jump around while the user is adjusting segments
+    if (!smartSkipEnabled || isEditing) return undefined;
+
+    // Padded copies map back to the segment they came from, for onSkip
+    const active: SkipSegment[] = [];
+    const sources = new Map<SkipSegment, SkipSegment>();
+    for (const seg of skipSegments) {
+      const policy = policyFor(seg);
+      if (policy === 'ignore') continue;
+      const effective = policy === 'skip' ? padSegment(seg, crossfade) : seg;
+      if (effective) {
+        active.push(effective);
+        sources.set(effective, seg);
+      }
+    }
+    const currentSegment = active.find(seg => time >= seg.start && time < seg.end);
+
+    // Leaving a sped-through segment
+    if (speedingRef.current && speedingRef.current !== currentSegment) {
+      endSpeedThrough();
+    }
+
+    if (currentSegment) {
+      const source = sources.get(currentSegment)!;
+      const policy = policyFor(source);
+      if (policy === 'speed' && speedingRef.current === currentSegment) return { time: currentSegment.end, fadeOut: false };
+
+      lastSkipRef.current = source;
+      lastSkipCreditRef.current = 0;
+      setIsSkipping(true);
+      setSkipReason(currentSegment.reason);
+      setSkipAction(policy === 'speed' ? 'speed' : 'skip');
+      eventsRef.current.onSkip?.(source, policy === 'speed' ? 'speed' : 'skip');
+
+      if (policy === 'speed') {
+        speedingRef.current = currentSegment;
+        video.preservesPitch = true;
+        video.muted = speedThrough.muted;
+        video.playbackRate = speedThrough.rate;
+      } else {
+        // Trigger skip; the audio comes back up once the seek lands (see handleSeeked)
+        if (faderRef.current && crossfade.enabled && fadingToRef.current === null) {
+          faderRef.current.fadeTo(0, 0);
+        }
+        fadingToRef.current = currentSegment.end;
+        lastSkipCreditRef.current = currentSegment.end - time;
+        timeSaved.credit(lastSkipCreditRef.current);
+        video.currentTime = currentSegment.end;
+      }
+      
+      // Small visual feedback reset
+      clearTimeout(skipToastTimerRef.current);
+      skipToastTimerRef.current = setTimeout(() => {
+         setIsSkipping(false);
+         setSkipReason(null);
+      }, SKIP_TOAST_MS);
+      return policy === 'speed' ? { time: currentSegment.end, fadeOut: false } : undefined;
+    }
+
+    const upcoming = active.filter(seg => seg.start > time).sort((a, b) => a.start - b.start)[0];
+    return upcoming ? { time: upcoming.start, fadeOut: policyFor(sources.get(upcoming)!) === 'skip' } : undefined;
+  }, [smartSkipEnabled, isEditing, skipSegments, policyFor, endSpeedThrough, speedThrough, crossfade, timeSaved]);
+
+  // "Wait, I wanted that": back to the start of the last skip, which then plays normally once
+  const rewindLastSkip = useCallback(() => {
+    const seg = lastSkipRef.current;
+    const video = videoRef.current;
+    if (!seg || !video) return;
+    watchingRef.current = segmentKey(seg);
+    endSpeedThrough();
+    // What the skip credited is handed back if not reported yet; the viewer is watching this part after all
+    timeSaved.refund(lastSkipCreditRef.current);
+    lastSkipCreditRef.current = 0;
+    clearTimeout(skipToastTimerRef.current);
+    setIsSkipping(false);
+    setSkipReason(null);
+    video.currentTime = seg.start;
+    setCurrentTime(seg.start);
+    if (video.paused) video.play();
+  }, [endSpeedThrough, timeSaved]);
+
+  // Only while focus is inside the player, so the key stays free for the rest of the page
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key.toLowerCase() !== REWIND_KEY || e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)) return;
+    rewindLastSkip();
+  };
+
+  useEffect(() => () => clearTimeout(skipToastTimerRef.current), []);
+
+  // The frame loop below always calls the latest applySkips without restarting
+  const applySkipsRef = useRef(applySkips);
+  applySkipsRef.current = applySkips;
+  const crossfadeRef = useRef(crossfade);
+  crossfadeRef.current = crossfade;
+
+  // Jumps are not watched time; skips already counted their savings. Cleared when the seek starts,
+  // since a timeupdate at the new position can fire before seeked does.
+  const handleSeeking = () => timeSaved.interrupt();
+
+  // Any finished seek, ours or the user's, brings the audio back after a fade-out
+  const handleSeeked = () => {
+    if (faderRef.current && fadingToRef.current !== null) {
+      fadingToRef.current = null;
+      faderRef.current.fadeTo(1, crossfade.enabled ? crossfade.fadeMs : 0);
+    }
+  };
+
+  // Switching skipping off halfway through a fade-out must not leave the audio silent
+  useEffect(() => {
+    if ((!smartSkipEnabled || isEditing) && faderRef.current && fadingToRef.current !== null) {
+      fadingToRef.current = null;
+      faderRef.current.fadeTo(1, 0);
+    }
+  }, [smartSkipEnabled, isEditing]);
+
+  const handlePlay = () => {
+    setIsPlaying(true);
+    if (crossfade.enabled && videoRef.current) {
+      faderRef.current = faderRef.current || getAudioFader(videoRef.current);
+    }
+    faderRef.current?.resume();
+  };
+
+  const handleCrossfadeChange = (next: CrossfadeSettings) => {
+    setCrossfade(next);
+    saveCrossfade(next);
+    if (next.enabled && videoRef.current && !videoRef.current.paused) {
+      faderRef.current = faderRef.current || getAudioFader(videoRef.current);
+      faderRef.current?.resume();
+    }
+  };
+
+  // timeupdate only fires every ~250ms, far too coarse for skipping: while playing, check every
+  // presented frame (requestVideoFrameCallback, or rAF where unsupported). When the next boundary
+  // falls between two frames, a timer scaled by playbackRate lands the skip right on it.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isPlaying) return;
+
+    const useFrameCallback = typeof video.requestVideoFrameCallback === 'function';
+    let frameHandle = 0;
+    let boundaryTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const evaluate = (time: number) => {
+      const next = applySkipsRef.current(time);
+      clearTimeout(boundaryTimer);
+      const fader = faderRef.current;
+
+      // The segment being faded out for stopped being skipped (kept, rules or threshold changed):
+      // no seek will follow to bring the audio back, so bring it back here
+      const fadingTo = fadingToRef.current;
+      if (fadingTo !== null && !video.seeking && !(next?.fadeOut && next.time === fadingTo)) {
+        fadingToRef.current = null;
+        fader?.fadeTo(1, crossfadeRef.current.enabled ? crossfadeRef.current.fadeMs : 0);
+      }
+
+      if (next === undefined || video.paused) return;
+      const delay = ((next.time - time) / video.playbackRate) * 1000;
+
+      // Ramp the audio down so it reaches silence exactly at the jump
+      if (fader && next.fadeOut && crossfadeRef.current.enabled && delay <= crossfadeRef.current.fadeMs && fadingToRef.current !== next.time) {
+        fadingToRef.current = next.time;
+        fader.fadeTo(0, delay);
+      }
+
+      if (delay < BOUNDARY_LOOKAHEAD_MS) {
+        boundaryTimer = setTimeout(() => {
+          if (!stopped) applySkipsRef.current(video.currentTime);
+        }, Math.max(0, delay));
+      }
+    };
+
+    const tick = (_now: number, metadata?: VideoFrameCallbackMetadata) => {
+      if (stopped) return;
+      evaluate(metadata ? metadata.mediaTime : video.currentTime);
+      frameHandle = useFrameCallback ? video.requestVideoFrameCallback(tick) : requestAnimationFrame(tick);
+    };
+
+    evaluate(video.currentTime);
+    frameHandle = useFrameCallback ? video.requestVideoFrameCallback(tick) : requestAnimationFrame(tick);
+
+    return () => {
+      stopped = true;
+      clearTimeout(boundaryTimer);
+      if (useFrameCallback) video.cancelVideoFrameCallback(frameHandle);
+      else cancelAnimationFrame(frameHandle);
+    };
+  }, [isPlaying]);
+
+  // Handle time update for the progress bar; also a fallback for the skip engine when frames stall
   const handleTimeUpdate = useCallback(() => {
     if (videoRef.current) {
-      const time = videoRef.current.currentTime;
+      const video = videoRef.current;
+      const time = video.currentTime;
       setCurrentTime(time);
+      onTimeUpdate?.(time);
 
-      if (smartSkipEnabled && skipSegments.length > 0) {
-        // Find if current time is inside a skip segment
-        const currentSegment = skipSegments.find(
-          seg => time >= seg.start && time < seg.end
-        );
-
-        if (currentSegment) {
-          // Trigger skip
-          setIsSkipping(true);
-          setSkipReason(currentSegment.reason);
-          videoRef.current.currentTime = currentSegment.end;
-          
-          // Small visual feedback reset
-          setTimeout(() => {
-             setIsSkipping(false);
-             setSkipReason(null);
-          }, 800);
-        }
-      }
+      // Playing faster than real time (user speed or speed-through) saves the difference
+      if (!video.paused && !video.seeking) timeSaved.progress(time, performance.now());
+      else timeSaved.interrupt();
+      if (timeSaved.pending() >= 5) flushTimeSaved();
+
+      applySkips(time);
     }
-  }, [smartSkipEnabled, skipSegments]);
+  }, [applySkips, flushTimeSaved, onTimeUpdate, timeSaved]);
 
   // Handle video metadata loaded
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
       setDuration(videoRef.current.duration);
+      // Loading a new source resets the element's rate to 1x
+      speedingRef.current = null;
+      lastSkipRef.current = null;
+      watchingRef.current = null;
+      videoRef.current.playbackRate = playbackRate;
+      frameArtworkRef.current = null;
+      if (startTime && startTime < videoRef.current.duration) {
+        videoRef.current.currentTime = startTime;
+        setCurrentTime(startTime);
+      }
     }
   };
 
@@ -76,76 +421,302 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
     }
   };
 
-  // Handle Speed Change
-  const changeSpeed = (speed: number) => {
-    setPlaybackRate(speed);
+  const seekTo = (time: number) => {
     if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setCurrentTime(time);
+    }
+  };
+
+  const jumpToChapter = (time: number | null) => {
+    if (time !== null) seekTo(time);
+  };
+
+  useImperativeHandle(ref, () => ({
+    seek: seekTo,
+    play: () => {
+      videoRef.current?.play();
+    },
+    pause: () => videoRef.current?.pause(),
+  }));
+
+  // Applies a speed, unless a segment is being sped through (it is restored afterwards)
+  const setRate = (speed: number) => {
+    setPlaybackRate(speed);
+    if (videoRef.current && !speedingRef.current) {
       videoRef.current.playbackRate = speed;
     }
   };
 
+  // Speed changes from the controls; with a controlled playbackRate prop the parent decides
+  const applyRate = (speed: number) => {
+    onPlaybackRateChange?.(speed);
+    if (controlledRate === undefined) setRate(speed);
+  };
+
+  useEffect(() => {
+    if (controlledRate !== undefined && controlledRate > 0) setRate(controlledRate);
+  }, [controlledRate]);
+
+  // Handle Speed Change
+  const changeSpeed = (speed: number) => {
+    applyRate(speed);
+  };
+
+  const handlePoliciesChange = (next: SkipPolicies) => {
+    setPolicies(next);
+    saveSkipPolicies(next);
+  };
+
+  const handleMinConfidenceChange = (value: number) => {
+    setMinConfidence(value);
+    saveMinConfidence(value);
+  };
+
+  const handleSpeedThroughChange = (next: SpeedThroughSettings) => {
+    setSpeedThrough(next);
+    saveSpeedThrough(next);
+    if (speedingRef.current && videoRef.current) {
+      videoRef.current.playbackRate = next.rate;
+      videoRef.current.muted = next.muted;
+    }
+  };
+
   // Toggle Smart Skip
   const toggleSmartSkip = () => {
-    setSmartSkipEnabled(!smartSkipEnabled);
+    const isActive = smartSkipEnabled && !speedThroughEnabled;
+    setSmartSkipEnabled(!isActive);
+    setSpeedThroughEnabled(false);
+  };
+
+  // Toggle Speed Through (fast-play flagged segments instead of jumping)
+  const toggleSpeedThrough = () => {
+    const isActive = smartSkipEnabled && speedThroughEnabled;
+    setSmartSkipEnabled(!isActive);
+    setSpeedThroughEnabled(!isActive);
   };
 
+  // Turning modes off mid-segment must not leave the video stuck at speed-through rate
+  useEffect(() => {
+    if (speedingRef.current && (!smartSkipEnabled || policyFor(speedingRef.current) !== 'speed')) {
+      endSpeedThrough();
+    }
+  }, [smartSkipEnabled, policyFor, endSpeedThrough]);
+
   // Toggle "Smart x2" (Turbo Mode)
   const toggleSmartTurbo = () => {
     const isTurbo = playbackRate === 2.0 && smartSkipEnabled;
     if (isTurbo) {
         // Revert to standard 1x
-        setPlaybackRate(1.0);
         setSmartSkipEnabled(false);
-        if(videoRef.current) videoRef.current.playbackRate = 1.0;
+        applyRate(1.0);
     } else {
         // Activate Turbo
-        setPlaybackRate(2.0);
         setSmartSkipEnabled(true);
-        if(videoRef.current) videoRef.current.playbackRate = 2.0;
+        applyRate(2.0);
     }
   };
 
   // Helper to check if Turbo is effectively active
   const isTurboActive = playbackRate === 2.0 && smartSkipEnabled;
 
-  // Format time helper
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  // Fullscreen takes the whole player, so the custom controls stay available on top of the video
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isPip, setIsPip] = useState(false);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const hideControlsTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const canFullscreen = typeof document !== 'undefined' && document.fullscreenEnabled;
+  const canPip = typeof document !== 'undefined' && document.pictureInPictureEnabled;
+
+  const revealControls = () => {
+    setControlsVisible(true);
+    clearTimeout(hideControlsTimerRef.current);
+    hideControlsTimerRef.current = setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_MS);
+  };
+
+  useEffect(() => {
+    const handleChange = () => {
+      const fullscreen = !!containerRef.current && document.fullscreenElement === containerRef.current;
+      setIsFullscreen(fullscreen);
+      if (fullscreen) revealControls();
+    };
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const enter = () => setIsPip(true);
+    const leave = () => setIsPip(false);
+    video.addEventListener('enterpictureinpicture', enter);
+    video.addEventListener('leavepictureinpicture', leave);
+    return () => {
+      video.removeEventListener('enterpictureinpicture', enter);
+      video.removeEventListener('leavepictureinpicture', leave);
+    };
+  }, []);
+
+  useEffect(() => () => clearTimeout(hideControlsTimerRef.current), []);
+
+  const toggleFullscreen = () => {
+    const request = document.fullscreenElement ? document.exitFullscreen() : containerRef.current?.requestFullscreen();
+    request?.catch(e => console.warn("Fullscreen unavailable:", e));
   };
 
+  const togglePip = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const request = document.pictureInPictureElement === video ? document.exitPictureInPicture() : video.requestPictureInPicture();
+    request.catch(e => console.warn("Picture-in-Picture unavailable:", e));
+  };
+
+  const hideControls = isFullscreen && isPlaying && !controlsVisible && !showRules && !isEditing;
+
+  // Media Session: OS media controls and the PiP window see the condensed timeline,
+  // so positions and seeks leave out what is skipped and compress what is sped through
+  const timeline = useMemo(
+    () => condensedTimeline(smartSkipEnabled ? skipSegments : [], duration, policyFor, speedThrough.rate),
+    [smartSkipEnabled, skipSegments, duration, policyFor, speedThrough.rate]
+  );
+  const seekCondensed = (position: number) => seekTo(fromCondensedTime(timeline, position));
+
+  // On to the start of the next segment that is skipped or sped through; the skip engine takes it from there
+  const jumpToNextSkip = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const candidates = smartSkipEnabled ? skipSegments.filter(seg => policyFor(seg) !== 'ignore') : skipSegments;
+    const next = candidates.filter(seg => seg.start > video.currentTime + 0.5).sort((a, b) => a.start - b.start)[0];
+    if (next) seekTo(next.start);
+  };
+
+  // Handlers are read through a ref so they always see the current timeline and segments
+  const mediaActionsRef = useRef<MediaSessionHandlers>({});
+  mediaActionsRef.current = {
+    play: () => {
+      videoRef.current?.play();
+    },
+    pause: () => videoRef.current?.pause(),
+    seekbackward: (details) => seekCondensed(toCondensedTime(timeline, currentTime) - (details.seekOffset || MEDIA_SEEK_SECONDS)),
+    seekforward: (details) => seekCondensed(toCondensedTime(timeline, currentTime) + (details.seekOffset || MEDIA_SEEK_SECONDS)),
+    seekto: (details) => {
+      if (details.seekTime !== undefined) seekCondensed(details.seekTime);
+    },
+    previoustrack: rewindLastSkip,
+    nexttrack: jumpToNextSkip,
+  };
+
+  // The player that started playing last owns the OS media controls
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isPlaying || !video) return;
+    const owner = sessionOwnerRef.current;
+    const handlers: MediaSessionHandlers = {};
+    for (const action of Object.keys(mediaActionsRef.current) as MediaSessionAction[]) {
+      handlers[action] = (details) => mediaActionsRef.current[action]?.(details);
+    }
+    claimMediaSession(owner, handlers);
+
+    if (!artwork && !frameArtworkRef.current) frameArtworkRef.current = captureFrame(video);
+    const image = artwork || frameArtworkRef.current;
+    setMediaSessionMetadata(owner, {
+      title: title || 'Video',
+      artist: mode === 'off' ? 'SmartSkip Player' : `SmartSkip Player · ${mode === 'speed' ? 'Speed Through' : 'Skip Filler'}`,
+      artwork: image ? [{ src: image }] : [],
+    });
+  }, [isPlaying, title, artwork, mode]);
+
+  useEffect(() => {
+    setMediaSessionPlaying(sessionOwnerRef.current, isPlaying);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    setMediaSessionPosition(sessionOwnerRef.current, {
+      duration: condensedDuration(timeline),
+      position: toCondensedTime(timeline, currentTime),
+      // Sped-through parts take one condensed second per real second, whatever the speed-through rate
+      playbackRate: speedingRef.current ? 1 : playbackRate,
+    });
+  }, [timeline, currentTime, playbackRate, isPlaying]);
+
+  useEffect(() => () => releaseMediaSession(sessionOwnerRef.current), []);
+
+  // Once part of a long video is analyzed, analysis keeps running without blocking playback
+  const isBlockingAnalysis = isAnalyzing && analyzedUntil <= 0;
+
   return (
-    <div className="w-full max-w-4xl mx-auto bg-gray-900 rounded-2xl overflow-hidden shadow-2xl border border-gray-800 relative group">
+    <div
+      ref={containerRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      onMouseMove={isFullscreen ? revealControls : undefined}
+      className={`overflow-hidden relative group focus:outline-none ${isFullscreen
+        ? `w-screen h-screen bg-black ${hideControls ? 'cursor-none' : ''}`
+        : 'w-full max-w-4xl mx-auto bg-gray-900 rounded-2xl shadow-2xl border border-gray-800'}`}
+    >
       {/* Video Element */}
-      <div className="relative bg-black aspect-video flex items-center justify-center">
+      <div className={`relative bg-black flex items-center justify-center ${isFullscreen ? 'w-full h-full' : 'aspect-video'}`}>
         <video
           ref={videoRef}
           src={src}
+          crossOrigin={crossOrigin}
           className="w-full h-full object-contain"
           onTimeUpdate={handleTimeUpdate}
           onLoadedMetadata={handleLoadedMetadata}
-          onEnded={() => setIsPlaying(false)}
+          onPlay={handlePlay}
+          onSeeking={handleSeeking}
+          onSeeked={handleSeeked}
+          onPause={() => {
+            setIsPlaying(false);
+            timeSaved.interrupt();
+            flushTimeSaved();
+          }}
+          onEnded={() => {
+            setIsPlaying(false);
+            onEnded?.();
+          }}
+          autoPlay={autoPlay}
           onClick={togglePlay}
         />
         
+        {isPip && (
+            <div className="absolute inset-0 bg-black flex flex-col items-center justify-center z-10 text-gray-400 text-sm gap-3">
+                <PictureInPictureIcon className="w-10 h-10" />
+                Playing in Picture-in-Picture
+            </div>
+        )}
+
         {/* Loading / Analyzing Overlay */}
-        {isAnalyzing && (
+        {isBlockingAnalysis && (
             <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-20 backdrop-blur-sm">
                 <BrainCircuitIcon className="text-primary-400 w-16 h-16 animate-pulse mb-4" />
-                <p className="text-white text-lg font-medium">Analyzing content with Gemini AI...</p>
+                <p className="text-white text-lg font-medium">Analyzing content with {analyzerLabel}...</p>
                 <p className="text-gray-400 text-sm mt-2">Detecting silence and filler words</p>
             </div>
         )}
 
+        {isAnalyzing && !isBlockingAnalysis && (
+            <div className="absolute top-6 left-6 bg-black/60 text-gray-200 px-3 py-1.5 rounded-full flex items-center gap-2 text-xs z-20 backdrop-blur-sm pointer-events-none">
+                <BrainCircuitIcon className="w-4 h-4 text-primary-400 animate-pulse" />
+                Analyzed up to {formatClock(analyzedUntil)}
+            </div>
+        )}
+
         {/* Skip Notification Overlay */}
-        <div className={`absolute top-6 right-6 bg-purple-600/90 text-white px-4 py-2 rounded-full flex items-center gap-2 transform transition-all duration-300 pointer-events-none ${isSkipping ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-4 scale-90'}`}>
+        <div className={`absolute top-6 right-6 z-20 bg-purple-600/90 text-white pl-4 pr-2 py-2 rounded-full flex items-center gap-2 transform transition-all duration-300 ${isSkipping ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-4 scale-90 pointer-events-none'}`}>
             <FastForwardIcon className="w-4 h-4" />
-            <span className="text-sm font-bold">Skipped: {skipReason || 'Insignificant'}</span>
+            <span className="text-sm font-bold">{skipAction === 'speed' ? 'Speeding through' : 'Skipped'}: {skipReason || 'Insignificant'}</span>
+            <button
+                onClick={rewindLastSkip}
+                className="ml-1 px-2.5 py-0.5 rounded-full bg-white/20 hover:bg-white/30 text-xs font-medium transition-colors"
+                title="Jump back and watch this part (R)"
+            >
+                Rewind &amp; watch
+            </button>
         </div>
 
         {/* Center Play Button (only when paused and not analyzing) */}
-        {!isPlaying && !isAnalyzing && (
+        {!isPlaying && !isBlockingAnalysis && (
           <button 
             onClick={togglePlay}
             className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-black/40 transition-colors group-hover:opacity-100 opacity-0"
@@ -157,10 +728,21 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
         )}
       </div>
 
-      {/* Controls Container */}
-      <div className="p-4 space-y-4 bg-gray-900/95 backdrop-blur-lg">
+      {/* Controls Container, overlaid on the video in fullscreen */}
+      <div className={`p-4 space-y-4 ${isFullscreen
+        ? `absolute inset-x-0 bottom-0 z-30 pt-12 max-h-full overflow-y-auto bg-gradient-to-t from-black via-black/80 to-transparent transition-opacity duration-300 ${hideControls ? 'opacity-0 pointer-events-none' : 'opacity-100'}`
+        : 'bg-gray-900/95 backdrop-blur-lg'}`}>
         
-        {/* Progress Bar */}
+        {/* Progress Bar (or the segment editor in edit mode) */}
+        {isEditing && onSegmentsChange ? (
+          <SegmentEditor
+            segments={skipSegments}
+            duration={duration}
+            currentTime={currentTime}
+            onChange={onSegmentsChange}
+            onSeek={seekTo}
+          />
+        ) : (
         <div 
             ref={progressBarRef}
             className="relative h-2 bg-gray-700 rounded-full cursor-pointer hover:h-3 transition-all duration-200 group/timeline"
@@ -172,19 +754,55 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
                 style={{ width: `${(currentTime / duration) * 100}%` }}
             />
             
+            {/* Part of the timeline that is still being analyzed */}
+            {isAnalyzing && !isBlockingAnalysis && (
+                <div
+                    className="absolute top-0 right-0 h-full bg-gray-500/30 animate-pulse z-0 rounded-r-full"
+                    style={{ left: `${(analyzedUntil / duration) * 100}%` }}
+                />
+            )}
+
             {/* Skip Segments Highlights */}
-            {smartSkipEnabled && skipSegments.map((seg, idx) => (
+            {smartSkipEnabled && skipSegments.map((seg, idx) => {
+                const category = getCategory(seg);
+                const policy = policyFor(seg);
+                return (
+                    <div
+                        key={idx}
+                        className={`absolute top-0 h-full z-0 hover:brightness-125 transition-all ${CATEGORY_INFO[category].color} ${policy === 'ignore' ? 'opacity-20' : ''}`}
+                        style={{
+                            left: `${(seg.start / duration) * 100}%`,
+                            width: `${((seg.end - seg.start) / duration) * 100}%`,
+                            backgroundImage: policy === 'speed' ? SPEED_STRIPES : undefined
+                        }}
+                        title={`${policy === 'ignore' ? 'Keep' : policy === 'speed' ? `Speed ${speedThrough.rate}x` : 'Skip'}: ${seg.reason} (${CATEGORY_INFO[category].label}${seg.confidence !== undefined ? `, ${Math.round(seg.confidence * 100)}%` : ''})`}
+                    />
+                );
+            })}
+
+            {/* Chapter Markers */}
+            {duration > 0 && chapters.map((chapter, idx) => chapter.start > 0 && (
                 <div
                     key={idx}
-                    className="absolute top-0 h-full bg-purple-500/50 z-0 hover:bg-purple-400/80 transition-colors"
-                    style={{
-                        left: `${(seg.start / duration) * 100}%`,
-                        width: `${((seg.end - seg.start) / duration) * 100}%`
+                    className="absolute -top-1 -bottom-1 w-3 -ml-1.5 z-20 flex justify-center group/chapter"
+                    style={{ left: `${(chapter.start / duration) * 100}%` }}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        seekTo(chapter.start);
                     }}
-                    title={`Skip: ${seg.reason}`}
-                />
+                >
+                    <div className="w-0.5 h-full bg-white/70 group-hover/chapter:bg-white" />
+                    <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover/chapter:block w-56 p-2 rounded-lg bg-gray-950 border border-gray-700 shadow-xl text-left pointer-events-none">
+                        <p className="text-xs font-semibold text-white">
+                            <span className="font-mono text-gray-400 mr-1">{formatClock(chapter.start)}</span>
+                            {chapter.title}
+                        </p>
+                        {chapter.description && <p className="mt-1 text-[11px] text-gray-400">{chapter.description}</p>}
+                    </div>
+                </div>
             ))}
         </div>
+        )}
 
         {/* Bottom Controls */}
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 sm:gap-0">
@@ -196,8 +814,32 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
                 
                 {/* Time Display */}
                 <div className="text-sm font-mono text-gray-400 whitespace-nowrap">
-                    {formatTime(currentTime)} / {formatTime(duration)}
+                    {formatClock(currentTime)} / {formatClock(duration)}
                 </div>
+
+                {/* Chapter Navigation */}
+                {chapters.length > 0 && (
+                    <div className="flex items-center gap-1 min-w-0">
+                        <button
+                            onClick={() => jumpToChapter(previousChapterStart(chapters, currentTime))}
+                            className="text-gray-400 hover:text-white transition-colors"
+                            title="Previous chapter"
+                        >
+                            <SkipBackIcon className="w-4 h-4" />
+                        </button>
+                        <span className="text-xs text-gray-300 truncate max-w-[160px]">
+                            {chapters[chapterIndexAt(chapters, currentTime)]?.title}
+                        </span>
+                        <button
+                            onClick={() => jumpToChapter(nextChapterStart(chapters, currentTime))}
+                            disabled={nextChapterStart(chapters, currentTime) === null}
+                            className="text-gray-400 hover:text-white transition-colors disabled:opacity-30"
+                            title="Next chapter"
+                        >
+                            <SkipForwardIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div className="flex items-center gap-3">
@@ -223,11 +865,40 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
 
                 {/* Smart Controls Group */}
                 <div className="flex items-center gap-2 sm:gap-3">
+                    {/* Per-category Skip Rules */}
+                    <button
+                        onClick={() => setShowRules(!showRules)}
+                        className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                            showRules
+                                ? 'bg-gray-700 border-gray-500 text-white'
+                                : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
+                        }`}
+                        title="Choose what to skip, speed through or keep per category"
+                    >
+                        Rules
+                    </button>
+
+                    {/* Segment Edit Mode */}
+                    {onSegmentsChange && (
+                        <button
+                            onClick={() => setIsEditing(!isEditing)}
+                            disabled={isAnalyzing || !duration}
+                            className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all disabled:opacity-40 ${
+                                isEditing
+                                    ? 'bg-purple-500/20 border-purple-500 text-purple-300'
+                                    : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
+                            }`}
+                            title="Adjust, split, add or delete skip segments"
+                        >
+                            {isEditing ? 'Done' : 'Edit Skips'}
+                        </button>
+                    )}
+
                     {/* Skip Filler Toggle */}
                     <button
                         onClick={toggleSmartSkip}
                         className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${
-                            smartSkipEnabled
+                            smartSkipEnabled && !speedThroughEnabled
                                 ? 'bg-purple-500/20 border-purple-500 text-purple-300' 
                                 : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
                         }`}
@@ -240,6 +911,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
                         </div>
                     </button>
 
+                    {/* Speed Through Toggle */}
+                    <button
+                        onClick={toggleSpeedThrough}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${
+                            smartSkipEnabled && speedThroughEnabled
+                                ? 'bg-amber-500/20 border-amber-500 text-amber-300'
+                                : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
+                        }`}
+                        title="Fast-play flagged segments instead of jumping over them"
+                    >
+                        <FastForwardIcon className="w-4 h-4" />
+                        <div className="flex flex-col items-start leading-none">
+                            <span className="text-xs font-bold">Speed Through</span>
+                            <span className="text-[10px] opacity-70">{speedThrough.rate}x {speedThrough.muted ? 'muted' : 'with audio'}</span>
+                        </div>
+                    </button>
+
                     {/* Smart Turbo (x2 + Skip) */}
                     <button
                         onClick={toggleSmartTurbo}
@@ -258,11 +946,48 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, skipSegments, isAnalyzin
                         </div>
                     </button>
                 </div>
+
+                {(canPip || canFullscreen) && (
+                    <div className="flex items-center gap-2">
+                        {canPip && (
+                            <button
+                                onClick={togglePip}
+                                disabled={!duration}
+                                className={`transition-colors disabled:opacity-30 ${isPip ? 'text-primary-400' : 'text-gray-400 hover:text-white'}`}
+                                title={isPip ? 'Back from Picture-in-Picture' : 'Picture-in-Picture'}
+                            >
+                                <PictureInPictureIcon className="w-5 h-5" />
+                            </button>
+                        )}
+                        {canFullscreen && (
+                            <button
+                                onClick={toggleFullscreen}
+                                className="text-gray-400 hover:text-white transition-colors"
+                                title={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+                            >
+                                {isFullscreen ? <MinimizeIcon className="w-5 h-5" /> : <MaximizeIcon className="w-5 h-5" />}
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
+
+        {showRules && (
+            <SkipRulesPanel
+                policies={policies}
+                minConfidence={minConfidence}
+                speedThrough={speedThrough}
+                onSpeedThroughChange={handleSpeedThroughChange}
+                crossfade={crossfade}
+                onCrossfadeChange={handleCrossfadeChange}
+                onPoliciesChange={handlePoliciesChange}
+                onMinConfidenceChange={handleMinConfidenceChange}
+            />
+        )}
       </div>
     </div>
   );
-};
+});
 
 export default VideoPlayer;
\ No newline at end of file
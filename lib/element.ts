@@ -0,0 +1,6 @@
+// Standalone bundle for non-React pages: registers <smartskip-player> on load.
+import { defineSmartSkipElement } from './smartskipElement';
+
+defineSmartSkipElement();
+
+export { defineSmartSkipElement };
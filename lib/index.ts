@@ -0,0 +1,8 @@
+// Public entry of the embeddable player. React pages render <SmartSkipPlayer>; other pages
+// can register the <smartskip-player> custom element instead.
+export { default as SmartSkipPlayer } from '../components/VideoPlayer';
+export type { VideoPlayerHandle as SmartSkipPlayerHandle, VideoPlayerProps as SmartSkipPlayerProps } from '../components/VideoPlayer';
+export { SkipCategory } from '../types';
+export type { AnalysisResult, Chapter, PlaybackSettings, SkipMode, SkipProfile, SkipSegment, TranscriptLine } from '../types';
+export { parseAnalysisPayload, normalizeAnalysis } from '../services/normalizeService';
+export { defineSmartSkipElement, SMARTSKIP_ELEMENT_TAG } from './smartskipElement';
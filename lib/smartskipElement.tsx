@@ -0,0 +1,136 @@
+import React, { createRef } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { Chapter, SkipMode, SkipSegment } from '../types';
+import { normalizeAnalysis, parseAnalysisPayload } from '../services/normalizeService';
+import VideoPlayer, { VideoPlayerHandle } from '../components/VideoPlayer';
+
+export const SMARTSKIP_ELEMENT_TAG = 'smartskip-player';
+
+const MODES: SkipMode[] = ['off', 'skip', 'speed'];
+
+// Accepts a bare segment array or a whole analysis export ({ segments, chapters, ... }).
+const parseAnalysisValue = (value: unknown): { segments: SkipSegment[]; chapters: Chapter[] } => {
+  const data = typeof value === 'string' ? JSON.parse(value) : value;
+  const { result } = normalizeAnalysis(parseAnalysisPayload(Array.isArray(data) ? { segments: data } : data, SMARTSKIP_ELEMENT_TAG));
+  return { segments: result.segments, chapters: result.chapters || [] };
+};
+
+// Renders the React player into the element's light DOM, so the page's Tailwind styles apply.
+// Segments come from the `segments` attribute (JSON) or property; player events are re-dispatched
+// as DOM CustomEvents: skip, segmententer, modechange and playbackratechange.
+class SmartSkipPlayerElement extends HTMLElement {
+  static observedAttributes = ['src', 'segments', 'playback-rate', 'mode', 'crossorigin'];
+
+  private root: Root | null = null;
+  private player = createRef<VideoPlayerHandle>();
+  private segmentList: SkipSegment[] = [];
+  private chapterList: Chapter[] = [];
+  private rate = 1;
+
+  get segments(): SkipSegment[] {
+    return this.segmentList;
+  }
+
+  set segments(value: SkipSegment[] | string) {
+    this.loadSegments(value);
+    this.render();
+  }
+
+  get chapters(): Chapter[] {
+    return this.chapterList;
+  }
+
+  set chapters(value: Chapter[]) {
+    this.chapterList = Array.isArray(value) ? value : [];
+    this.render();
+  }
+
+  get playbackRate(): number {
+    return this.rate;
+  }
+
+  set playbackRate(value: number) {
+    if (value > 0) this.rate = value;
+    this.render();
+  }
+
+  seek(time: number) {
+    this.player.current?.seek(time);
+  }
+
+  play() {
+    this.player.current?.play();
+  }
+
+  pause() {
+    this.player.current?.pause();
+  }
+
+  connectedCallback() {
+    if (!this.root) this.root = createRoot(this);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(name: string, _previous: string | null, value: string | null) {
+    if (name === 'segments') this.loadSegments(value || '[]');
+    if (name === 'playback-rate') this.rate = Number(value) > 0 ? Number(value) : 1;
+    this.render();
+  }
+
+  private loadSegments(value: unknown) {
+    try {
+      const parsed = parseAnalysisValue(value);
+      this.segmentList = parsed.segments;
+      if (parsed.chapters.length) this.chapterList = parsed.chapters;
+    } catch (e) {
+      console.warn(`<${SMARTSKIP_ELEMENT_TAG}> ignored invalid segments:`, e);
+      this.segmentList = [];
+    }
+  }
+
+  private emit(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private render() {
+    if (!this.root) return;
+    const mode = this.getAttribute('mode') as SkipMode | null;
+    const crossOrigin = this.getAttribute('crossorigin');
+    this.root.render(
+      <VideoPlayer
+        ref={this.player}
+        src={this.getAttribute('src') || ''}
+        crossOrigin={crossOrigin === null ? undefined : crossOrigin === 'use-credentials' ? 'use-credentials' : 'anonymous'}
+        skipSegments={this.segmentList}
+        chapters={this.chapterList}
+        isAnalyzing={false}
+        autoPlay={this.hasAttribute('autoplay')}
+        defaultMode={mode && MODES.includes(mode) ? mode : 'skip'}
+        playbackRate={this.rate}
+        onPlaybackRateChange={(rate) => {
+          this.rate = rate;
+          this.render();
+          this.emit('playbackratechange', { rate });
+        }}
+        onSkip={(segment, action) => this.emit('skip', { segment, action })}
+        onSegmentEnter={(segment) => this.emit('segmententer', { segment })}
+        onModeChange={(next) => this.emit('modechange', { mode: next })}
+        onSegmentsChange={(segments) => {
+          this.segmentList = segments;
+          this.render();
+        }}
+      />
+    );
+  }
+}
+
+// Safe to call more than once; a tag that is already taken is left alone.
+export const defineSmartSkipElement = (tagName = SMARTSKIP_ELEMENT_TAG) => {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  customElements.define(tagName, class extends SmartSkipPlayerElement {});
+};
@@ -0,0 +1,62 @@
+import { AnalysisProgress, AnalysisResult, AnalyzerSettings, CachedAnalysis, PartialAnalysis, SkipAnalyzer, SkipProfile } from '../types';
+import { runAnalyzer } from './analyzerRegistry';
+import { cacheKey, getCachedAnalysis, hashFile, putCachedAnalysis } from './cacheService';
+import { NormalizationReport } from './normalizeService';
+import { hasProfileEffect, profileSignature } from './profileService';
+import { throwIfCancelled } from './retryService';
+
+export interface CachedAnalysisOptions {
+  analyzer: SkipAnalyzer;
+  settings: AnalyzerSettings;
+  profile?: SkipProfile;
+  contentHash?: string; // Skips hashing when the caller already knows it
+  force?: boolean;      // Ignore a cached result and analyze again
+  duration?: number;
+  signal?: AbortSignal;
+  onProgress?: (status: string) => void;
+  onMeasuredProgress?: (progress: AnalysisProgress) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+export interface CachedAnalysisRun {
+  result: AnalysisResult;
+  report: NormalizationReport | null; // null when the result came from the cache
+  entry: CachedAnalysis | null;       // The cache entry that was read or written, if any
+  contentHash?: string;
+}
+
+// Runs an analyzer with the analysis cache in front of it. Cache problems are never fatal:
+// the analysis simply runs (and is not stored) when IndexedDB is unavailable.
+export const analyzeWithCache = async (file: File, options: CachedAnalysisOptions): Promise<CachedAnalysisRun> => {
+  const { analyzer, settings, profile, force, duration, signal, onProgress, onMeasuredProgress, onPartial } = options;
+  const analyzerVersion = hasProfileEffect(profile)
+    ? `${analyzer.version(settings)}:profile-${profileSignature(profile)}`
+    : analyzer.version(settings);
+
+  let contentHash = options.contentHash;
+  try {
+    if (!contentHash) {
+      onProgress?.("Fingerprinting video...");
+      contentHash = await hashFile(file);
+    }
+    if (!force) {
+      const cached = await getCachedAnalysis(cacheKey(contentHash, analyzer.id, analyzerVersion));
+      if (cached) return { result: cached.result, report: null, entry: cached, contentHash };
+    }
+  } catch (e) {
+    console.warn("Analysis cache unavailable:", e);
+  }
+
+  throwIfCancelled(signal);
+  const { result, report } = await runAnalyzer(analyzer, file, { settings, profile, duration, signal, onProgress, onMeasuredProgress, onPartial });
+
+  let entry: CachedAnalysis | null = null;
+  if (contentHash) {
+    try {
+      entry = await putCachedAnalysis(file, contentHash, analyzer.id, analyzerVersion, result);
+    } catch (e) {
+      console.warn("Could not cache analysis:", e);
+    }
+  }
+  return { result, report, entry, contentHash };
+};
@@ -0,0 +1,139 @@
+import { AnalysisResult, AnalyzeOptions, AnalyzerSettings, SkipAnalyzer } from '../types';
+import { analyzeVideoContent, DEFAULT_GEMINI_MODEL, GEMINI_PROMPT_VERSION } from './geminiService';
+import { analyzeViaHttp } from './httpAnalyzerService';
+import { analyzeWithFixture } from './fixtureService';
+import { DEFAULT_CHUNKING } from './chunkingService';
+import { NormalizationReport, normalizeAnalysis, parseAnalysisPayload } from './normalizeService';
+import { analyzeSilence, DEFAULT_SILENCE_OPTIONS } from './silenceService';
+import { throwIfCancelled } from './retryService';
+import { applyProfile } from './profileService';
+
+const SETTINGS_KEY = 'smartskip.analyzerSettings';
+const SELECTED_KEY = 'smartskip.analyzer';
+
+export const DEFAULT_ANALYZER_ID = 'gemini';
+
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = {
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  geminiChunking: DEFAULT_CHUNKING,
+  httpEndpoint: 'http://localhost:8787/analyze',
+  silence: DEFAULT_SILENCE_OPTIONS,
+};
+
+const registry = new Map<string, SkipAnalyzer>();
+
+export const registerAnalyzer = (analyzer: SkipAnalyzer) => {
+  registry.set(analyzer.id, analyzer);
+};
+
+export const getAnalyzer = (id: string): SkipAnalyzer => {
+  const analyzer = registry.get(id);
+  if (!analyzer) {
+    throw new Error(`Unknown analyzer: ${id}`);
+  }
+  return analyzer;
+};
+
+export const listAnalyzers = (): SkipAnalyzer[] => Array.from(registry.values());
+
+// Every analyzer result, partial or final, is validated, filtered by the skip profile and normalized before it reaches the player.
+export const runAnalyzer = async (
+  analyzer: SkipAnalyzer,
+  file: File,
+  options: AnalyzeOptions
+): Promise<{ result: AnalysisResult; report: NormalizationReport }> => {
+  const { duration, profile, onPartial } = options;
+  const normalize = (result: AnalysisResult) =>
+    normalizeAnalysis(applyProfile(parseAnalysisPayload(result, analyzer.label), profile), { duration });
+
+  throwIfCancelled(options.signal);
+  const raw = await analyzer.analyze(file, {
+    ...options,
+    onPartial: onPartial && ((partial) => onPartial({ ...partial, result: normalize(partial.result).result })),
+  });
+  // Analyzers that cannot stop halfway still finish; their result is dropped
+  throwIfCancelled(options.signal);
+  return normalize(raw);
+};
+
+registerAnalyzer({
+  id: 'gemini',
+  label: 'Gemini AI',
+  description: 'Listens and watches for filler, silence and repetition.',
+  offline: false,
+  followsInstructions: true,
+  version: ({ geminiModel, geminiChunking }) =>
+    `prompt-${GEMINI_PROMPT_VERSION}:${geminiModel}:${geminiChunking.windowSeconds}/${geminiChunking.overlapSeconds}`,
+  analyze: (file, { settings, profile, duration, signal, onProgress, onMeasuredProgress, onPartial }) =>
+    analyzeVideoContent(file, onProgress, {
+      model: settings.geminiModel,
+      chunking: settings.geminiChunking,
+      profile,
+      duration,
+      signal,
+      onMeasuredProgress,
+      onPartial,
+    }),
+});
+
+registerAnalyzer({
+  id: 'silence',
+  label: 'Silence (Offline)',
+  description: 'Decodes the audio locally and skips dead air.',
+  offline: true,
+  followsInstructions: false,
+  version: ({ silence }) => `v2:${silence.thresholdDb}:${silence.minDuration}:${silence.padding}:${silence.frameSize}`,
+  analyze: (file, { settings, onProgress }) =>
+    analyzeSilence(file, settings.silence, onProgress),
+});
+
+registerAnalyzer({
+  id: 'http',
+  label: 'HTTP Endpoint',
+  description: 'POSTs the media to your own analysis server.',
+  offline: false,
+  followsInstructions: true,
+  version: (settings) => settings.httpEndpoint,
+  analyze: (file, { settings, profile, signal, onProgress }) =>
+    analyzeViaHttp(file, settings.httpEndpoint, onProgress, signal, profile),
+});
+
+registerAnalyzer({
+  id: 'fixture',
+  label: 'Fixture',
+  description: 'Deterministic fake segments for testing the flow.',
+  offline: true,
+  followsInstructions: false,
+  version: () => 'v2',
+  analyze: (file, { duration, onProgress }) => analyzeWithFixture(file, onProgress, duration),
+});
+
+export const loadAnalyzerSettings = (): AnalyzerSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_ANALYZER_SETTINGS;
+    const stored = JSON.parse(raw);
+    return {
+      ...DEFAULT_ANALYZER_SETTINGS,
+      ...stored,
+      geminiChunking: { ...DEFAULT_CHUNKING, ...stored.geminiChunking },
+      silence: { ...DEFAULT_SILENCE_OPTIONS, ...stored.silence },
+    };
+  } catch (e) {
+    console.warn("Ignoring unreadable analyzer settings:", e);
+    return DEFAULT_ANALYZER_SETTINGS;
+  }
+};
+
+export const saveAnalyzerSettings = (settings: AnalyzerSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadSelectedAnalyzerId = (): string => {
+  const id = localStorage.getItem(SELECTED_KEY);
+  return id && registry.has(id) ? id : DEFAULT_ANALYZER_ID;
+};
+
+export const saveSelectedAnalyzerId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
@@ -0,0 +1,61 @@
+export interface AudioFader {
+  fadeTo: (level: number, ms: number) => void;
+  resume: () => void;
+}
+
+// A media element can be routed into Web Audio only once, so the graph is kept per element.
+const faders = new WeakMap<HTMLMediaElement, AudioFader>();
+
+type LegacyAudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+// Web Audio gets silence from cross-origin media served without CORS, and routing cannot be
+// undone, so only same-origin sources (including blob: URLs) or CORS requests are routed.
+const canRouteAudio = (media: HTMLMediaElement) => {
+  if (media.crossOrigin) return true;
+  const src = media.currentSrc || media.src;
+  if (!src) return false;
+  try {
+    const url = new URL(src, window.location.href);
+    return url.protocol === 'data:' || url.origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+// Routes the element's audio through a gain node. Returns null where Web Audio is unavailable
+// or the media's audio would not be readable.
+export const getAudioFader = (media: HTMLMediaElement): AudioFader | null => {
+  const existing = faders.get(media);
+  if (existing) return existing;
+  if (!canRouteAudio(media)) return null;
+
+  const AudioContextClass = window.AudioContext || (window as LegacyAudioWindow).webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  let ctx: AudioContext;
+  let gain: GainNode;
+  try {
+    ctx = new AudioContextClass();
+    const source = ctx.createMediaElementSource(media);
+    gain = ctx.createGain();
+    source.connect(gain).connect(ctx.destination);
+  } catch (e) {
+    console.warn("Audio crossfades unavailable:", e);
+    return null;
+  }
+
+  const fader: AudioFader = {
+    fadeTo: (level, ms) => {
+      const now = ctx.currentTime;
+      gain.gain.cancelScheduledValues(now);
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(level, now + Math.max(0, ms) / 1000);
+    },
+    // Contexts start suspended until a user gesture; call from play handlers
+    resume: () => {
+      if (ctx.state === 'suspended') ctx.resume();
+    },
+  };
+  faders.set(media, fader);
+  return fader;
+};
@@ -0,0 +1,100 @@
+import { AnalysisResult, CachedAnalysis } from '../types';
+
+const DB_NAME = 'smartskip';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+// Files up to this size are hashed in full. Bigger ones are fingerprinted from
+// their size plus a few evenly spaced samples so we never hold gigabytes in memory.
+const FULL_HASH_LIMIT = 256 * 1024 * 1024;
+const SAMPLE_SIZE = 4 * 1024 * 1024;
+const SAMPLE_COUNT = 8;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashFile = async (file: File): Promise<string> => {
+  if (file.size <= FULL_HASH_LIMIT) {
+    return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  }
+
+  const parts: BlobPart[] = [String(file.size)];
+  const step = (file.size - SAMPLE_SIZE) / (SAMPLE_COUNT - 1);
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const offset = Math.floor(i * step);
+    parts.push(file.slice(offset, offset + SAMPLE_SIZE));
+  }
+  const sampled = await new Blob(parts).arrayBuffer();
+  return 'sampled-' + toHex(await crypto.subtle.digest('SHA-256', sampled));
+};
+
+export const cacheKey = (contentHash: string, analyzerId: string, analyzerVersion: string) =>
+  `${contentHash}:${analyzerId}:${analyzerVersion}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('contentHash', 'contentHash', { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getCachedAnalysis = async (id: string): Promise<CachedAnalysis | undefined> => {
+  return run<CachedAnalysis | undefined>('readonly', store => store.get(id));
+};
+
+export const findCachedAnalyses = async (contentHash: string): Promise<CachedAnalysis[]> => {
+  const entries = await run<CachedAnalysis[]>('readonly', store => store.index('contentHash').getAll(contentHash));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const listCachedAnalyses = async (): Promise<CachedAnalysis[]> => {
+  const entries = await run<CachedAnalysis[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const putCachedAnalysis = async (
+  file: File,
+  contentHash: string,
+  analyzerId: string,
+  analyzerVersion: string,
+  result: AnalysisResult
+): Promise<CachedAnalysis> => {
+  const entry: CachedAnalysis = {
+    id: cacheKey(contentHash, analyzerId, analyzerVersion),
+    contentHash,
+    fileName: file.name,
+    fileSize: file.size,
+    analyzerId,
+    analyzerVersion,
+    result,
+    createdAt: Date.now(),
+  };
+  await run('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const deleteCachedAnalysis = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { chapterIndexAt, nextChapterStart, previousChapterStart } from './chapterService';
+
+const chapters = [{ start: 0, title: 'Intro' }, { start: 60, title: 'Main' }, { start: 300, title: 'Q&A' }];
+
+describe('chapterIndexAt', () => {
+  it('finds the chapter playing at a time', () => {
+    expect(chapterIndexAt(chapters, 0)).toBe(0);
+    expect(chapterIndexAt(chapters, 59.9)).toBe(0);
+    expect(chapterIndexAt(chapters, 60)).toBe(1);
+    expect(chapterIndexAt(chapters, 1000)).toBe(2);
+  });
+
+  it('returns -1 before the first chapter', () => {
+    expect(chapterIndexAt([{ start: 10, title: 'Late' }], 5)).toBe(-1);
+    expect(chapterIndexAt([], 5)).toBe(-1);
+  });
+});
+
+describe('previousChapterStart', () => {
+  it('restarts the current chapter once it has been playing a while', () => {
+    expect(previousChapterStart(chapters, 100)).toBe(60);
+  });
+
+  it('goes one chapter back right after a chapter start', () => {
+    expect(previousChapterStart(chapters, 62)).toBe(0);
+    expect(previousChapterStart(chapters, 1)).toBe(0);
+  });
+
+  it('has nowhere to go before the first chapter', () => {
+    expect(previousChapterStart([{ start: 10, title: 'Late' }], 5)).toBeNull();
+  });
+});
+
+describe('nextChapterStart', () => {
+  it('returns the start of the following chapter', () => {
+    expect(nextChapterStart(chapters, 10)).toBe(60);
+    expect(nextChapterStart(chapters, 400)).toBeNull();
+    expect(nextChapterStart([{ start: 10, title: 'Late' }], 5)).toBe(10);
+  });
+});
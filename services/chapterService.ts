@@ -0,0 +1,24 @@
+import { Chapter } from '../types';
+
+// Going back within this many seconds of a chapter start goes to the previous chapter instead
+const RESTART_GRACE = 3;
+
+// Index of the chapter playing at `time`, or -1 before the first one.
+export const chapterIndexAt = (chapters: Chapter[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < chapters.length && chapters[i].start <= time; i++) index = i;
+  return index;
+};
+
+// Like the previous-track button of a music player: restart the chapter, or go one back when just started.
+export const previousChapterStart = (chapters: Chapter[], time: number): number | null => {
+  const index = chapterIndexAt(chapters, time);
+  if (index < 0) return null;
+  if (time - chapters[index].start > RESTART_GRACE || index === 0) return chapters[index].start;
+  return chapters[index - 1].start;
+};
+
+export const nextChapterStart = (chapters: Chapter[], time: number): number | null => {
+  const next = chapters[chapterIndexAt(chapters, time) + 1];
+  return next ? next.start : null;
+};
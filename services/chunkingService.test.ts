@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { coveredUntil, mapWithConcurrency, offsetSegments, offsetTranscript, planWindows, stitchChapters, stitchTranscript } from './chunkingService';
+
+describe('planWindows', () => {
+  it('covers the media with overlapping windows', () => {
+    expect(planWindows(25, { windowSeconds: 10, overlapSeconds: 2, concurrency: 1 })).toEqual([
+      { start: 0, end: 10 },
+      { start: 8, end: 18 },
+      { start: 16, end: 25 },
+    ]);
+  });
+
+  it('uses one window for short media', () => {
+    expect(planWindows(5, { windowSeconds: 10, overlapSeconds: 2, concurrency: 1 })).toEqual([{ start: 0, end: 5 }]);
+  });
+});
+
+describe('offsetSegments', () => {
+  it('shifts window-relative times and clamps them to the window', () => {
+    const segments = offsetSegments(
+      [{ start: 1, end: 2, reason: 'a' }, { start: 8, end: 15, reason: 'drift' }, { start: 12, end: 14, reason: 'outside' }],
+      { start: 100, end: 110 }
+    );
+    expect(segments.map(s => [s.start, s.end])).toEqual([[101, 102], [108, 110]]);
+  });
+});
+
+describe('transcript stitching', () => {
+  it('keeps lines in the window they start in', () => {
+    const lines = offsetTranscript([{ start: 1, end: 3, text: 'in' }, { start: 12, end: 13, text: 'out' }], { start: 10, end: 20 });
+    expect(lines).toEqual([{ start: 11, end: 13, text: 'in' }]);
+  });
+
+  it('keeps the first reading of the overlap', () => {
+    const lines = stitchTranscript([
+      { start: 9, end: 11, text: 'second window' },
+      { start: 8, end: 10, text: 'first window' },
+      { start: 12, end: 13, text: 'later' },
+    ]);
+    expect(lines.map(l => l.text)).toEqual(['first window', 'later']);
+  });
+});
+
+describe('stitchChapters', () => {
+  it('drops chapters that open too close to the previous one', () => {
+    const chapters = stitchChapters([{ start: 610, title: 'dup' }, { start: 0, title: 'A' }, { start: 600, title: 'B' }], 15);
+    expect(chapters.map(c => c.title)).toEqual(['A', 'B']);
+  });
+});
+
+describe('coveredUntil', () => {
+  it('stops at the first unfinished window', () => {
+    const windows = [{ start: 0, end: 10 }, { start: 8, end: 18 }, { start: 16, end: 25 }];
+    expect(coveredUntil(windows, [true, false, true])).toBe(10);
+    expect(coveredUntil(windows, [false, true, true])).toBe(0);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps result order with several workers', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, (ms, i) => new Promise<number>(resolve => setTimeout(() => resolve(i), ms)));
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('stops on the first failure and aborts the workers still running', async () => {
+    const started: number[] = [];
+    let aborted = false;
+    const run = mapWithConcurrency([0, 1, 2, 3], 2, (i, _index, signal) => new Promise<void>((resolve, reject) => {
+      started.push(i);
+      if (i === 1) return reject(new Error('boom'));
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    }));
+    await expect(run).rejects.toThrow('boom');
+    expect(started).toEqual([0, 1]);
+    expect(aborted).toBe(true);
+  });
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(mapWithConcurrency([1], 1, async x => x, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
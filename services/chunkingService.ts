@@ -0,0 +1,122 @@
+import { Chapter, ChunkSettings, SkipSegment, TranscriptLine } from '../types';
+import { cancelledError } from './retryService';
+import { mergeOverlapping, TimeRange } from './segmentUtils';
+
+export const DEFAULT_CHUNKING: ChunkSettings = {
+  windowSeconds: 10 * 60,
+  overlapSeconds: 15,
+  concurrency: 3,
+};
+
+export const planWindows = (duration: number, { windowSeconds, overlapSeconds }: ChunkSettings): TimeRange[] => {
+  const step = Math.max(1, windowSeconds - overlapSeconds);
+  const windows: TimeRange[] = [];
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + windowSeconds, duration);
+    windows.push({ start, end });
+    if (end >= duration) break;
+  }
+  return windows;
+};
+
+// Runs worker over every item with at most `limit` in flight, preserving result order.
+// The first failure stops the rest: no new items start and the workers' signal aborts the ones in flight.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) throw cancelledError();
+  signal?.addEventListener('abort', abort, { once: true });
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const run = async () => {
+    while (next < items.length && !controller.signal.aborted) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index, controller.signal);
+      } catch (error) {
+        // Siblings fail with an abort once this one stops them; the original error is the one to report
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+        controller.abort();
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, run));
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+  if (failed) throw firstError;
+  if (signal?.aborted) throw cancelledError();
+  return results;
+};
+
+// Window results come back relative to the window start; shift them onto the full timeline
+// and clamp to the window so model drift cannot leak into a neighbour.
+export const offsetSegments = (segments: SkipSegment[], window: TimeRange): SkipSegment[] => {
+  return segments
+    .map(seg => ({
+      ...seg,
+      start: Math.max(window.start, window.start + seg.start),
+      end: Math.min(window.end, window.start + seg.end),
+    }))
+    .filter(seg => seg.end > seg.start);
+};
+
+// Two windows see the same overlap, so the same pause is usually reported twice.
+export const stitchSegments = (segments: SkipSegment[]): SkipSegment[] => mergeOverlapping(segments);
+
+// Transcript lines are shifted the same way; a line belongs to the window it starts in.
+export const offsetTranscript = (lines: TranscriptLine[], window: TimeRange): TranscriptLine[] => {
+  return lines
+    .map(line => ({ ...line, start: window.start + line.start, end: Math.min(window.end, window.start + line.end) }))
+    .filter(line => line.start >= window.start && line.start < window.end);
+};
+
+// Overlapping windows transcribe the same speech twice; keep the first reading of any stretch.
+export const stitchTranscript = (lines: TranscriptLine[]): TranscriptLine[] => {
+  const sorted = [...lines].sort((a, b) => a.start - b.start);
+  const stitched: TranscriptLine[] = [];
+  for (const line of sorted) {
+    const last = stitched[stitched.length - 1];
+    if (last && line.start < last.end) continue;
+    stitched.push(line);
+  }
+  return stitched;
+};
+
+export const offsetChapters = (chapters: Chapter[], window: TimeRange): Chapter[] => {
+  return chapters
+    .map(chapter => ({ ...chapter, start: window.start + chapter.start }))
+    .filter(chapter => chapter.start >= window.start && chapter.start < window.end);
+};
+
+// Neighbouring windows often both open a chapter around their shared overlap; keep the earlier one.
+export const stitchChapters = (chapters: Chapter[], minSpacing: number): Chapter[] => {
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  const stitched: Chapter[] = [];
+  for (const chapter of sorted) {
+    const last = stitched[stitched.length - 1];
+    if (last && chapter.start - last.start < minSpacing) continue;
+    stitched.push(chapter);
+  }
+  return stitched;
+};
+
+// End of the contiguous prefix of the timeline whose windows have all finished.
+export const coveredUntil = (windows: TimeRange[], done: boolean[]): number => {
+  let until = 0;
+  for (let i = 0; i < windows.length && done[i]; i++) until = windows[i].end;
+  return until;
+};
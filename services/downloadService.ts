@@ -0,0 +1,179 @@
+import { DownloadSettings } from '../types';
+import { cancelledError, isCancelled, sleep, throwIfCancelled } from './retryService';
+import { isYoutubeUrl, resolveYoutubeUrl } from './youtubeService';
+
+const SETTINGS_KEY = 'smartskip.downloadSettings';
+
+// Most external video hosts send no CORS headers, so downloads go through proxies
+export const PUBLIC_PROXIES = [
+  'https://corsproxy.io/?{url}',
+  'https://api.allorigins.win/raw?url={url}',
+  'https://thingproxy.freeboard.io/fetch/{raw}',
+];
+
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  direct: true,
+  proxies: PUBLIC_PROXIES,
+  maxMegabytes: 2048,
+};
+
+// Dropped connections are picked up where they stopped with a Range request
+const MAX_RESUMES = 5;
+// Received bytes are folded into Blobs this often, which browsers may keep on disk instead of in memory
+const FOLD_BYTES = 32 * 1024 * 1024;
+
+export interface DownloadOptions {
+  settings?: DownloadSettings;
+  signal?: AbortSignal;
+  onStatus?: (status: string) => void;
+  onProgress?: (received: number, total?: number) => void;
+}
+
+// Too big is too big through any proxy; it ends the download instead of trying the next source
+class DownloadSizeError extends Error {}
+
+export const loadDownloadSettings = (): DownloadSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_DOWNLOAD_SETTINGS, ...JSON.parse(raw) } : DEFAULT_DOWNLOAD_SETTINGS;
+  } catch (e) {
+    console.warn("Ignoring unreadable download settings:", e);
+    return DEFAULT_DOWNLOAD_SETTINGS;
+  }
+};
+
+export const saveDownloadSettings = (settings: DownloadSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const proxiedUrl = (template: string, url: string) =>
+  template.replace('{url}', encodeURIComponent(url)).replace('{raw}', url);
+
+export const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Start byte of a 206 answer, from "Content-Range: bytes 1000-1999/5000"
+const rangeStart = (res: Response) => {
+  const match = /bytes (\d+)-/.exec(res.headers.get('content-range') || '');
+  return match ? Number(match[1]) : -1;
+};
+
+// Streams one source into a Blob, resuming with Range requests when the connection drops.
+const streamSource = async (source: string, options: DownloadOptions & { maxBytes: number }): Promise<Blob> => {
+  const { signal, onProgress, maxBytes } = options;
+  const parts: Blob[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let received = 0;
+  let total: number | undefined;
+  let type = '';
+  let started = false;
+
+  const fold = () => {
+    if (pending.length) parts.push(new Blob(pending));
+    pending = [];
+    pendingBytes = 0;
+  };
+
+  for (let resumes = 0; ; resumes++) {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    try {
+      const res = await fetch(source, { signal, headers: received > 0 ? { Range: `bytes=${received}-` } : undefined });
+      if (!res.ok) throw new Error(`Status ${res.status}`);
+
+      if (received > 0 && (res.status !== 206 || rangeStart(res) !== received)) {
+        // The server ignored the range; the only way on is from the start
+        parts.length = 0;
+        pending = [];
+        pendingBytes = 0;
+        received = 0;
+      }
+      if (received === 0) {
+        type = res.headers.get('content-type') || '';
+        const length = Number(res.headers.get('content-length'));
+        total = length > 0 ? length : undefined;
+        if (total && maxBytes && total > maxBytes) {
+          throw new DownloadSizeError(`Video is ${formatMegabytes(total)}, over the ${formatMegabytes(maxBytes)} limit`);
+        }
+      }
+      started = true;
+      if (!res.body) {
+        fold();
+        parts.push(await res.blob());
+        break;
+      }
+
+      reader = res.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending.push(value);
+        pendingBytes += value.byteLength;
+        received += value.byteLength;
+        if (maxBytes && received > maxBytes) {
+          throw new DownloadSizeError(`Video is over the ${formatMegabytes(maxBytes)} limit`);
+        }
+        if (pendingBytes >= FOLD_BYTES) fold();
+        onProgress?.(received, total);
+      }
+      break;
+    } catch (error) {
+      reader?.cancel().catch(() => undefined);
+      if (error instanceof DownloadSizeError || signal?.aborted) throw error;
+      // A source that fails its first request is left for the next one; a failed resume is retried
+      if (!started || resumes >= MAX_RESUMES) throw error;
+      console.warn(`Download interrupted at ${formatMegabytes(received)}, resuming:`, error);
+      options.onStatus?.(`Connection dropped, resuming at ${formatMegabytes(received)}...`);
+      await sleep(1000 * 2 ** resumes, signal);
+    }
+  }
+
+  fold();
+  const blob = new Blob(parts, { type });
+  if (total && blob.size < total) throw new Error(`Download ended early (${formatMegabytes(blob.size)} of ${formatMegabytes(total)})`);
+  return blob;
+};
+
+// Downloads a direct media link or a YouTube video into a File.
+export const downloadVideo = async (url: string, options: DownloadOptions = {}): Promise<File> => {
+  const { onStatus, signal } = options;
+  const settings = options.settings || loadDownloadSettings();
+  const maxBytes = settings.maxMegabytes > 0 ? settings.maxMegabytes * 1024 * 1024 : 0;
+  let fetchUrl = url;
+  const isYT = isYoutubeUrl(url);
+
+  // 1. Resolve YouTube URL if necessary
+  if (isYT) {
+    onStatus?.('Resolving YouTube stream...');
+    fetchUrl = await resolveYoutubeUrl(url, undefined, signal);
+    throwIfCancelled(signal);
+  }
+
+  // 2. Stream the video data from the first source that works. Resolved YouTube streams rarely
+  // allow CORS, so proxies go first for them; plain links are tried directly first.
+  const proxied = settings.proxies.filter(Boolean).map(template => proxiedUrl(template, fetchUrl));
+  const sources = !settings.direct ? proxied : isYT ? [...proxied, fetchUrl] : [fetchUrl, ...proxied];
+  if (sources.length === 0) {
+    throw new Error('No download source configured. Enable direct downloads or add a proxy.');
+  }
+
+  let blob: Blob | null = null;
+  let lastError: any;
+  for (const source of sources) {
+    onStatus?.(source === fetchUrl ? 'Downloading video...' : 'Downloading video (via Proxy)...');
+    try {
+      blob = await streamSource(source, { ...options, maxBytes });
+      break;
+    } catch (err) {
+      if (signal?.aborted) throw cancelledError();
+      if (err instanceof DownloadSizeError || isCancelled(err)) throw err;
+      lastError = err;
+    }
+  }
+
+  if (!blob) {
+    throw new Error(`Failed to download video. ${lastError?.message || ''}`);
+  }
+
+  const fileName = isYT ? 'youtube_video.mp4' : (url.split('/').pop()?.split('?')[0] || 'video.mp4');
+  return new File([blob], fileName, { type: blob.type || 'video/mp4' });
+};
@@ -0,0 +1,182 @@
+import { SkipSegment } from '../types';
+import { getKeptRanges, TimeRange } from './segmentUtils';
+
+export interface CondensedExportOptions {
+  audioOnly?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface CondensedExport {
+  blob: Blob;
+  extension: string;
+}
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// Kept ranges shorter than this are not worth a seek and a recorder pause
+const MIN_RANGE = 0.05;
+
+const pickMimeType = (audioOnly: boolean) => {
+  const type = (audioOnly ? AUDIO_TYPES : VIDEO_TYPES).find(t => MediaRecorder.isTypeSupported(t));
+  if (!type) throw new Error(`This browser cannot record ${audioOnly ? 'audio' : 'video'}`);
+  return type;
+};
+
+type CaptureVideoElement = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+type LegacyAudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+const mediaError = (target: EventTarget) =>
+  target instanceof HTMLMediaElement && target.error
+    ? new Error(`The browser cannot play this file${target.error.message ? `: ${target.error.message}` : ''}`)
+    : null;
+
+// Waits for `event`, failing on the target's error event (e.g. a source that cannot be decoded) or on abort.
+const once = (target: EventTarget, event: string, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, done);
+      target.removeEventListener('error', fail);
+      signal?.removeEventListener('abort', abort);
+    };
+    const done = () => {
+      cleanup();
+      resolve();
+    };
+    const fail = () => {
+      cleanup();
+      reject(mediaError(target) || new Error("Export failed"));
+    };
+    const abort = () => {
+      cleanup();
+      reject(new Error("Export cancelled"));
+    };
+    if (signal?.aborted) return abort();
+    const error = mediaError(target);
+    if (error) return reject(error);
+    target.addEventListener(event, done);
+    target.addEventListener('error', fail);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+};
+
+// Plays from the current position until `end`, reporting the position along the way.
+// Checks on a timer sized to the remaining time rather than on timeupdate, which fires only every ~250ms.
+const playUntil = (video: HTMLVideoElement, end: number, signal: AbortSignal | undefined, onTime: (time: number) => void) => {
+  return new Promise<void>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout>;
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      video.pause();
+      if (error) reject(error); else resolve();
+    };
+    const abort = () => finish(new Error("Export cancelled"));
+    const check = () => {
+      onTime(video.currentTime);
+      if (video.ended || video.currentTime >= end) return finish();
+      if (video.error) return finish(new Error("Playback failed while exporting"));
+      timer = setTimeout(check, Math.min(250, Math.max(5, (end - video.currentTime) * 1000)));
+    };
+
+    if (signal?.aborted) return abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    video.play().then(check, e => finish(e instanceof Error ? e : new Error(String(e))));
+  });
+};
+
+// Re-records the kept ranges of a file in real time with MediaRecorder. Everything stays local:
+// a detached video element plays the source, and the recorder is paused across every skipped part.
+export const exportCondensedMedia = async (
+  file: File,
+  segments: SkipSegment[],
+  { audioOnly = false, signal, onProgress }: CondensedExportOptions = {}
+): Promise<CondensedExport> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error("This browser does not support MediaRecorder");
+  }
+  const mimeType = pickMimeType(audioOnly);
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.playsInline = true;
+  let audioContext: AudioContext | null = null;
+  let stream: MediaStream | null = null;
+
+  try {
+    video.src = url;
+    await once(video, 'loadedmetadata', signal);
+    if (!Number.isFinite(video.duration)) {
+      throw new Error("Media duration is unknown");
+    }
+
+    const ranges: TimeRange[] = getKeptRanges(segments, video.duration).filter(r => r.end - r.start >= MIN_RANGE);
+    const total = ranges.reduce((acc, r) => acc + (r.end - r.start), 0);
+    if (ranges.length === 0) {
+      throw new Error("Nothing left to export: the whole video is marked as skipped");
+    }
+
+    // Audio goes through Web Audio so the export is silent on the speakers
+    const AudioContextClass = window.AudioContext || (window as LegacyAudioWindow).webkitAudioContext;
+    if (!AudioContextClass) throw new Error("This browser does not support Web Audio");
+    audioContext = new AudioContextClass();
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(destination);
+    await audioContext.resume();
+
+    const tracks = [...destination.stream.getAudioTracks()];
+    if (!audioOnly) {
+      const element = video as CaptureVideoElement;
+      const capture = element.captureStream || element.mozCaptureStream;
+      if (!capture) throw new Error("This browser cannot capture video from a media element");
+      tracks.push(...capture.call(element).getVideoTracks());
+    }
+    stream = new MediaStream(tracks);
+
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = once(recorder, 'stop');
+
+    let done = 0;
+    onProgress?.(0);
+    recorder.start(1000);
+    recorder.pause();
+
+    try {
+      for (const range of ranges) {
+        video.currentTime = range.start;
+        await once(video, 'seeked', signal);
+        recorder.resume();
+        await playUntil(video, range.end, signal, time => {
+          onProgress?.(Math.min(1, (done + Math.max(0, time - range.start)) / total));
+        });
+        recorder.pause();
+        done += range.end - range.start;
+      }
+    } finally {
+      recorder.stop();
+      await stopped;
+    }
+
+    onProgress?.(1);
+    return {
+      blob: new Blob(chunks, { type: mimeType.split(';')[0] }),
+      extension: mimeType.includes('mp4') ? (audioOnly ? 'm4a' : 'mp4') : mimeType.includes('ogg') ? 'ogg' : 'webm',
+    };
+  } finally {
+    stream?.getTracks().forEach(track => track.stop());
+    audioContext?.close();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -1,84 +1,248 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, SkipSegment } from '../types';
+import { GoogleGenAI, Part, Type } from "@google/genai";
+import { AnalysisProgress, AnalysisResult, Chapter, ChunkSettings, PartialAnalysis, SkipCategory, SkipProfile, SkipSegment, TranscriptLine } from '../types';
+import { coveredUntil, DEFAULT_CHUNKING, mapWithConcurrency, offsetChapters, offsetSegments, offsetTranscript, planWindows, stitchChapters, stitchSegments, stitchTranscript } from './chunkingService';
+import { getMediaDuration } from './mediaService';
+import { parseAnalysisPayload } from './normalizeService';
+import { profileInstructions } from './profileService';
+import { cancelledError, isCancelled, RetryOptions, sleep, throwIfCancelled, withRetry } from './retryService';
+import { TimeRange } from './segmentUtils';
 
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash"; // Efficient for longer context processing
+
+// Bump whenever the prompt or response schema changes so cached analyses are not reused.
+export const GEMINI_PROMPT_VERSION = 5;
+
+export interface GeminiConfig {
+  model?: string;
+  apiKey?: string;
+  chunking?: ChunkSettings;
+  profile?: SkipProfile; // Extra instructions; the default profile leaves the prompt unchanged
+  duration?: number; // Probed from the file when missing
+  signal?: AbortSignal;
+  onMeasuredProgress?: (progress: AnalysisProgress) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+const UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+// Every chunk but the last must be a multiple of 256 KiB
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+interface UploadedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  state?: string;
+}
+
+// What the requests of one analysis share: the skip profile, cancellation, and retry notices for the status line
+interface RequestContext {
+  profile?: SkipProfile;
+  signal?: AbortSignal;
+  onProgress?: (status: string) => void;
+  onMeasuredProgress?: (progress: AnalysisProgress) => void;
+}
+
+const retryOptions = ({ signal, onProgress }: RequestContext, what: string): RetryOptions => ({
+  signal,
+  onRetry: (attempt, delayMs) => {
+    if (onProgress) onProgress(`Gemini is busy, retrying ${what} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`);
+  },
+});
+
+const getClient = (apiKey = process.env.API_KEY) => {
   if (!apiKey) {
     throw new Error("API Key not found in environment variables");
   }
   return new GoogleGenAI({ apiKey });
 };
 
+// Base64 without FileReader, so the same code runs in the browser and under Node.
+// Converted in slices because String.fromCharCode cannot take millions of arguments.
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
 const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+  return {
+    inlineData: {
+      data: toBase64(new Uint8Array(await file.arrayBuffer())),
+      mimeType: file.type,
+    },
+  };
+};
+
+// fetch cannot report upload progress, so chunks go through XHR where it exists. Node has none and uses fetch.
+const sendChunk = (
+  url: string,
+  headers: Record<string, string>,
+  body: Blob,
+  signal?: AbortSignal,
+  onBytes?: (sent: number) => void
+): Promise<Response> => {
+  if (typeof XMLHttpRequest === 'undefined') return fetch(url, { method: 'POST', signal, headers, body });
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64Data = reader.result as string;
-      const base64Content = base64Data.split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64Content,
-          mimeType: file.type,
-        },
+    if (signal?.aborted) return reject(cancelledError());
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener('abort', abort);
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => onBytes?.(e.loaded);
+    xhr.onload = () => {
+      settle();
+      const responseHeaders = new Headers();
+      xhr.getAllResponseHeaders().split(/\r?\n/).forEach(line => {
+        const colon = line.indexOf(':');
+        if (colon > 0) responseHeaders.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
       });
+      resolve(new Response(xhr.responseText || null, { status: xhr.status, headers: responseHeaders }));
+    };
+    // Same error fetch throws for a dropped connection, so the retry logic treats both alike
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(cancelledError());
     };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+    signal?.addEventListener('abort', abort, { once: true });
+    xhr.send(body);
   });
 };
 
-export const analyzeVideoContent = async (file: File, onProgress?: (status: string) => void): Promise<AnalysisResult> => {
-  const ai = getClient();
-  const model = "gemini-2.5-flash"; // Efficient for longer context processing
-
-  let contentPart;
-
-  // For files larger than 20MB, we must use the Files API (Media Upload)
-  // This handles the "upload by parts" logic internally and bypasses inline payload limits.
-  if (file.size > 20 * 1024 * 1024) {
-      if (onProgress) onProgress("Uploading large video to Gemini (this bypasses size limits)...");
-      
-      try {
-        // Upload the file using the Files API
-        const uploadResult = await ai.files.upload({
-            file: file,
-            config: { displayName: file.name }
-        });
-
-        let fileUri = uploadResult.uri;
-        let state = uploadResult.state;
-        const name = uploadResult.name;
-
-        // Wait for the file to be processed and active
-        while (state === "PROCESSING") {
-            if (onProgress) onProgress("Processing video on server...");
-            await new Promise((resolve) => setTimeout(resolve, 2000));
-            const fileStatus = await ai.files.get({ name });
-            state = fileStatus.state;
-        }
+// After a failed chunk the server may hold some or all of it; asks how many bytes it has.
+// Returns the upload's final response instead when the failed chunk already finished it.
+const queryUpload = async (uploadUrl: string, signal?: AbortSignal): Promise<{ received: number; final?: Response }> => {
+  const res = await fetch(uploadUrl, { method: 'POST', signal, headers: { 'X-Goog-Upload-Command': 'query' } });
+  if (!res.ok) throw new Error(`Upload status check failed, status ${res.status}`);
+  if (res.headers.get('x-goog-upload-status') === 'final') return { received: Number.NaN, final: res };
+  const received = Number(res.headers.get('x-goog-upload-size-received'));
+  if (!Number.isFinite(received) || received < 0) throw new Error("Gemini did not say how much of the upload arrived");
+  return { received };
+};
 
-        if (state !== "ACTIVE") {
-            throw new Error(`Video processing failed on server. State: ${state}`);
-        }
+// ai.files.upload neither reports progress nor takes an abort signal, so large files go through the
+// resumable upload protocol directly: one request per chunk, each retried on its own from wherever the server got to.
+const uploadFile = async (apiKey: string, file: File, context: RequestContext): Promise<UploadedFile> => {
+  const { signal, onMeasuredProgress } = context;
+  const mimeType = file.type || 'application/octet-stream';
 
-        // Use the file URI for content generation
-        contentPart = {
-            fileData: {
-                fileUri: fileUri,
-                mimeType: uploadResult.mimeType
-            }
-        };
-      } catch (error: any) {
-          console.error("Large file upload failed:", error);
-          throw new Error("Failed to upload large video. " + (error.message || "Unknown error"));
+  const session = await withRetry(async () => {
+    const res = await fetch(UPLOAD_URL, {
+      method: 'POST',
+      signal,
+      headers: {
+        'x-goog-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': String(file.size),
+        'X-Goog-Upload-Header-Content-Type': mimeType,
+      },
+      body: JSON.stringify({ file: { displayName: file.name } }),
+    });
+    if (!res.ok) throw new Error(`Upload could not start, status ${res.status}`);
+    return res;
+  }, retryOptions(context, 'the upload'));
+
+  const uploadUrl = session.headers.get('x-goog-upload-url');
+  if (!uploadUrl) throw new Error("Gemini did not return an upload URL");
+
+  let offset = 0;
+  let interrupted = false;
+  const report = (done: number) => onMeasuredProgress?.({ phase: 'upload', done: Math.min(done, file.size), total: file.size });
+  report(0);
+  while (true) {
+    const { res, last } = await withRetry(async () => {
+      if (interrupted) {
+        const status = await queryUpload(uploadUrl, signal);
+        if (status.final) return { res: status.final, last: true };
+        offset = status.received;
+        report(offset);
       }
-  } else {
-      // For smaller files, inline data is faster
-      if (onProgress) onProgress("Encoding video data...");
-      contentPart = await fileToGenerativePart(file);
+      const end = Math.min(file.size, offset + UPLOAD_CHUNK_BYTES);
+      const isLast = end >= file.size;
+      interrupted = true;
+      const chunk = await sendChunk(uploadUrl, {
+        'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+        'X-Goog-Upload-Offset': String(offset),
+      }, file.slice(offset, end), signal, (sent) => report(offset + sent));
+      if (!chunk.ok) throw new Error(`Upload failed, status ${chunk.status}`);
+      interrupted = false;
+      offset = end;
+      return { res: chunk, last: isLast };
+    }, retryOptions(context, 'the upload'));
+
+    report(offset);
+    if (last) {
+      const body = await res.json();
+      if (!body?.file?.uri) throw new Error("Gemini did not confirm the upload");
+      return body.file;
+    }
+  }
+};
+
+// Gets the media to Gemini once; chunked analysis then reuses the same part for every window.
+const prepareContentPart = async (ai: GoogleGenAI, apiKey: string, file: File, context: RequestContext): Promise<Part> => {
+  const { signal, onProgress } = context;
+
+  // Inline data is faster, but requests are capped at 20MB
+  if (file.size <= 20 * 1024 * 1024) {
+    if (onProgress) onProgress("Encoding video data...");
+    const part = await fileToGenerativePart(file);
+    throwIfCancelled(signal);
+    return part;
+  }
+
+  if (onProgress) onProgress("Uploading large video to Gemini (this bypasses size limits)...");
+  try {
+    const uploaded = await uploadFile(apiKey, file, context);
+    let state = uploaded.state;
+
+    // Wait for the file to be processed and active
+    while (state === "PROCESSING") {
+      if (onProgress) onProgress("Processing video on server...");
+      await sleep(2000, signal);
+      const fileStatus = await withRetry(
+        () => ai.files.get({ name: uploaded.name, config: { abortSignal: signal } }),
+        retryOptions(context, 'the status check')
+      );
+      state = fileStatus.state;
+    }
+
+    if (state !== "ACTIVE") {
+      throw new Error(`Video processing failed on server. State: ${state}`);
+    }
+    return { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType } };
+  } catch (error: any) {
+    if (isCancelled(error)) throw error;
+    console.error("Large file upload failed:", error);
+    throw new Error("Failed to upload large video. " + (error.message || "Unknown error"));
   }
+};
 
-  if (onProgress) onProgress("Analyzing content for fluff and silence...");
+// Analyzes the whole media, or only `window` of it when the video is chunked.
+// Window timestamps are requested relative to the window start.
+const analyzeWindow = async (
+  ai: GoogleGenAI,
+  model: string,
+  contentPart: Part,
+  context: RequestContext,
+  window?: TimeRange
+): Promise<AnalysisResult> => {
+  const part: Part = window
+    ? { ...contentPart, videoMetadata: { startOffset: `${Math.floor(window.start)}s`, endOffset: `${Math.ceil(window.end)}s` } }
+    : contentPart;
+
+  const windowNote = window
+    ? `Only this clip of a longer video is provided (from ${Math.floor(window.start)}s to ${Math.ceil(window.end)}s of the original). Report all timestamps in seconds relative to the start of this clip.`
+    : '';
+  const profileNote = profileInstructions(context.profile);
 
   const prompt = `
     Analyze the audio and visual content of this video. 
@@ -89,19 +253,37 @@ export const analyzeVideoContent = async (file: File, onProgress?: (status: stri
     3. Repetitive redundant sentences.
     4. Long pauses between sentences.
     5. Intro/Outro music without speech (if long).
+    6. Sponsor reads and advertisements.
+    7. Off-topic tangents that do not contribute to the main subject.
+    
+    Classify every segment with exactly one category:
+    "silence" (silence and long pauses), "filler" (filler words, stalling),
+    "repetition" (redundant sentences), "intro_outro" (intro/outro music or credits),
+    "sponsor" (sponsor reads, ads) or "off_topic" (tangents).
+    Give each segment a confidence between 0 and 1 that it can be skipped without losing information.
     
     The goal is to create a list of timestamps to skip so the viewer can watch a condensed version.
     
+    Also transcribe all speech as a list of lines, one sentence or short phrase per line,
+    each with its start and end time in seconds. Transcribe filler words as spoken.
+    
+    Finally, split the content into chapters wherever the topic changes. Give each chapter
+    its start time in seconds, a short title and a one-sentence description.
+    
+    ${windowNote}
+    ${profileNote}
+    
     Return the result strictly as a JSON object.
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await withRetry(() => ai.models.generateContent({
       model: model,
       contents: {
-        parts: [contentPart, { text: prompt }]
+        parts: [part, { text: prompt }]
       },
       config: {
+        abortSignal: context.signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -118,26 +300,151 @@ export const analyzeVideoContent = async (file: File, onProgress?: (status: stri
                 properties: {
                   start: { type: Type.NUMBER, description: "Start time in seconds" },
                   end: { type: Type.NUMBER, description: "End time in seconds" },
-                  reason: { type: Type.STRING, description: "Short reason for skipping (e.g., 'Silence', 'Filler')" }
+                  reason: { type: Type.STRING, description: "Short reason for skipping (e.g., 'Silence', 'Filler')" },
+                  category: {
+                    type: Type.STRING,
+                    enum: Object.values(SkipCategory),
+                    description: "Category of the skippable content"
+                  },
+                  confidence: { type: Type.NUMBER, description: "Confidence from 0 to 1 that the segment is safe to skip" }
                 },
-                required: ["start", "end", "reason"]
+                required: ["start", "end", "reason", "category", "confidence"]
+              }
+            },
+            transcript: {
+              type: Type.ARRAY,
+              description: "Timestamped transcript of all speech.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  start: { type: Type.NUMBER, description: "Start time in seconds" },
+                  end: { type: Type.NUMBER, description: "End time in seconds" },
+                  text: { type: Type.STRING, description: "Spoken text" }
+                },
+                required: ["start", "end", "text"]
+              }
+            },
+            chapters: {
+              type: Type.ARRAY,
+              description: "Chapters in order, one per topic.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  start: { type: Type.NUMBER, description: "Start time in seconds" },
+                  title: { type: Type.STRING, description: "Short chapter title" },
+                  description: { type: Type.STRING, description: "One-sentence description of the chapter" }
+                },
+                required: ["start", "title"]
               }
             }
           }
         }
       }
-    });
+    }), retryOptions(context, window ? `part ${Math.floor(window.start)}s-${Math.ceil(window.end)}s` : 'the analysis'));
 
     const text = response.text;
     if (!text) {
       throw new Error("No response from AI");
     }
 
-    const data = JSON.parse(text) as AnalysisResult;
-    return data;
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("Gemini returned malformed JSON");
+    }
+    return parseAnalysisPayload(data, 'Gemini');
 
   } catch (error) {
-    console.error("Error analyzing video:", error);
+    if (!isCancelled(error)) console.error("Error analyzing video:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Merges the one-sentence summaries of all windows into one.
+const summarizeWindows = async (ai: GoogleGenAI, model: string, summaries: string[], context: RequestContext): Promise<string> => {
+  const parts = summaries.filter(Boolean);
+  if (parts.length <= 1) return parts[0] || '';
+  try {
+    const response = await withRetry(() => ai.models.generateContent({
+      model: model,
+      contents: `These are summaries of consecutive parts of one video:\n${parts.map((p, i) => `${i + 1}. ${p}`).join('\n')}\n\nWrite a very brief 1-sentence summary of the whole video.`,
+      config: { abortSignal: context.signal },
+    }), retryOptions(context, 'the summary'));
+    return response.text?.trim() || parts[0];
+  } catch (error) {
+    if (isCancelled(error)) throw error;
+    console.warn("Could not merge window summaries:", error);
+    return parts[0];
+  }
+};
+
+export const analyzeVideoContent = async (
+  file: File,
+  onProgress?: (status: string) => void,
+  config: GeminiConfig = {}
+): Promise<AnalysisResult> => {
+  const apiKey = config.apiKey || process.env.API_KEY || '';
+  const ai = getClient(apiKey);
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+  const chunking = config.chunking || DEFAULT_CHUNKING;
+  const context: RequestContext = { profile: config.profile, signal: config.signal, onProgress, onMeasuredProgress: config.onMeasuredProgress };
+
+  const contentPart = await prepareContentPart(ai, apiKey, file, context);
+
+  let duration = config.duration || 0;
+  if (!duration) {
+    try {
+      duration = await getMediaDuration(file);
+    } catch (e) {
+      console.warn("Unknown media duration, analyzing in one pass:", e);
+    }
+  }
+
+  // Short media goes out in a single request
+  if (duration <= chunking.windowSeconds) {
+    if (onProgress) onProgress("Analyzing content for fluff and silence...");
+    return analyzeWindow(ai, model, contentPart, context);
+  }
+
+  // Long media: overlapping windows with bounded concurrency, streamed back as they finish
+  const windows = planWindows(duration, chunking);
+  const done: boolean[] = windows.map(() => false);
+  const summaries: string[] = windows.map(() => '');
+  let collected: SkipSegment[] = [];
+  let transcript: TranscriptLine[] = [];
+  let chapters: Chapter[] = [];
+
+  if (onProgress) onProgress(`Analyzing ${windows.length} parts of the video...`);
+  config.onMeasuredProgress?.({ phase: 'analyze', done: 0, total: windows.length });
+
+  await mapWithConcurrency(windows, chunking.concurrency, async (window, index, signal) => {
+    const result = await analyzeWindow(ai, model, contentPart, { ...context, signal }, window);
+    collected = collected.concat(offsetSegments(result.segments || [], window));
+    transcript = transcript.concat(offsetTranscript(result.transcript || [], window));
+    // The start of a later window is the previous window's overlap, not a new topic
+    chapters = chapters.concat(
+      offsetChapters(result.chapters || [], window).filter(c => index === 0 || c.start >= window.start + chunking.overlapSeconds)
+    );
+    summaries[index] = result.summary;
+    done[index] = true;
+
+    const finished = done.filter(Boolean).length;
+    if (onProgress) onProgress(`Analyzed ${finished} of ${windows.length} parts...`);
+    config.onMeasuredProgress?.({ phase: 'analyze', done: finished, total: windows.length });
+    if (config.onPartial) {
+      config.onPartial({
+        result: { segments: stitchSegments(collected), summary: summaries.find(Boolean) || '', transcript: stitchTranscript(transcript), chapters: stitchChapters(chapters, chunking.overlapSeconds) },
+        analyzedUntil: coveredUntil(windows, done),
+      });
+    }
+  }, config.signal);
+
+  if (onProgress) onProgress("Summarizing...");
+  return {
+    segments: stitchSegments(collected),
+    summary: await summarizeWindows(ai, model, summaries, context),
+    transcript: stitchTranscript(transcript),
+    chapters: stitchChapters(chapters, chunking.overlapSeconds),
+  };
+};
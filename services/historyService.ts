@@ -0,0 +1,71 @@
+import { HistoryEntry } from '../types';
+
+const HISTORY_KEY = 'smartskip.history';
+const MAX_ENTRIES = 500;
+
+export const loadHistory = (): HistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    const entries: HistoryEntry[] = raw ? JSON.parse(raw) : [];
+    return entries.sort((a, b) => b.lastWatched - a.lastWatched);
+  } catch (e) {
+    console.warn("Ignoring unreadable viewing history:", e);
+    return [];
+  }
+};
+
+const saveHistory = (entries: HistoryEntry[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+};
+
+// Adds watched time savings to the entry for this video, creating it on first watch.
+// Zero seconds still counts as a watch, so videos without skips show up too.
+export const recordTimeSaved = (
+  video: { id: string; fileName: string; duration: number },
+  seconds: number
+): HistoryEntry[] => {
+  const now = Date.now();
+  const entries = loadHistory();
+  const existing = entries.find(e => e.id === video.id);
+
+  if (existing) {
+    existing.timeSaved += seconds;
+    existing.lastWatched = now;
+    existing.duration = video.duration || existing.duration;
+  } else {
+    entries.unshift({ ...video, timeSaved: seconds, firstWatched: now, lastWatched: now });
+  }
+
+  const sorted = entries.sort((a, b) => b.lastWatched - a.lastWatched);
+  saveHistory(sorted);
+  return sorted;
+};
+
+// Folds the entry recorded under a video's provisional id into the one for its content hash.
+export const moveHistoryEntry = (fromId: string, toId: string): HistoryEntry[] => {
+  const entries = loadHistory();
+  const moved = entries.find(e => e.id === fromId);
+  if (fromId === toId || !moved) return entries;
+
+  const rest = entries.filter(e => e !== moved);
+  const existing = rest.find(e => e.id === toId);
+  if (existing) {
+    existing.timeSaved += moved.timeSaved;
+    existing.firstWatched = Math.min(existing.firstWatched, moved.firstWatched);
+    existing.lastWatched = Math.max(existing.lastWatched, moved.lastWatched);
+    existing.duration = existing.duration || moved.duration;
+  } else {
+    rest.push({ ...moved, id: toId });
+  }
+
+  const sorted = rest.sort((a, b) => b.lastWatched - a.lastWatched);
+  saveHistory(sorted);
+  return sorted;
+};
+
+export const recordView = (video: { id: string; fileName: string; duration: number }): HistoryEntry[] =>
+  recordTimeSaved(video, 0);
+
+export const clearHistory = () => {
+  localStorage.removeItem(HISTORY_KEY);
+};
@@ -0,0 +1,51 @@
+import { AnalysisResult, SkipProfile } from '../types';
+import { parseAnalysisPayload } from './normalizeService';
+import { isCancelled } from './retryService';
+
+// Sends the media to a self-hosted analysis backend (or a local mock server).
+// The endpoint receives a multipart form with a "file" field, plus a "profile" field
+// holding the SkipProfile as JSON when one is selected, and must answer with an
+// AnalysisResult JSON body.
+export const analyzeViaHttp = async (
+  file: File,
+  endpoint: string,
+  onProgress?: (status: string) => void,
+  signal?: AbortSignal,
+  profile?: SkipProfile
+): Promise<AnalysisResult> => {
+  if (!endpoint) {
+    throw new Error("No analysis endpoint configured");
+  }
+
+  const form = new FormData();
+  form.append('file', file, file.name);
+  if (profile) form.append('profile', JSON.stringify(profile));
+
+  if (onProgress) onProgress(`Sending video to ${new URL(endpoint, typeof window !== 'undefined' ? window.location.href : undefined).host}...`);
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json' },
+      body: form,
+      signal,
+    });
+  } catch (error: any) {
+    if (isCancelled(error)) throw error;
+    throw new Error(`Analysis endpoint unreachable: ${error.message || 'network error'}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Analysis endpoint returned ${response.status} ${response.statusText}`);
+  }
+
+  if (onProgress) onProgress("Reading analysis result...");
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error("Analysis endpoint did not return valid JSON");
+  }
+  return parseAnalysisPayload(data, 'Analysis endpoint');
+};
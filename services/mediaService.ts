@@ -0,0 +1,33 @@
+// Reads the duration of a media file without decoding it, using a detached media element.
+export const getMediaDuration = (file: File): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    if (typeof document === 'undefined') {
+      reject(new Error("Media duration can only be read in the browser"));
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const media = document.createElement(file.type.startsWith('audio/') ? 'audio' : 'video');
+    media.preload = 'metadata';
+
+    const cleanup = () => {
+      media.removeAttribute('src');
+      media.load();
+      URL.revokeObjectURL(url);
+    };
+
+    media.onloadedmetadata = () => {
+      const duration = media.duration;
+      cleanup();
+      if (Number.isFinite(duration)) {
+        resolve(duration);
+      } else {
+        reject(new Error("Media duration is unknown"));
+      }
+    };
+    media.onerror = () => {
+      cleanup();
+      reject(new Error("Could not read media metadata"));
+    };
+    media.src = url;
+  });
+};
@@ -0,0 +1,66 @@
+// The OS media controls (lock screen, headphone buttons, PiP window) belong to one player at a
+// time. Pages with several players hand them to whichever started playing last.
+export type MediaSessionHandlers = Partial<Record<MediaSessionAction, MediaSessionActionHandler>>;
+
+const ACTIONS: MediaSessionAction[] = ['play', 'pause', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'];
+
+let owner: object | null = null;
+
+const hasMediaSession = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Browsers throw for actions they do not know
+  }
+};
+
+export const claimMediaSession = (claimant: object, handlers: MediaSessionHandlers) => {
+  if (!hasMediaSession()) return;
+  owner = claimant;
+  ACTIONS.forEach(action => setHandler(action, handlers[action] || null));
+};
+
+export const releaseMediaSession = (claimant: object) => {
+  if (!hasMediaSession() || owner !== claimant) return;
+  owner = null;
+  ACTIONS.forEach(action => setHandler(action, null));
+  navigator.mediaSession.metadata = null;
+  navigator.mediaSession.playbackState = 'none';
+};
+
+export const setMediaSessionMetadata = (claimant: object, metadata: MediaMetadataInit) => {
+  if (!hasMediaSession() || owner !== claimant) return;
+  navigator.mediaSession.metadata = new MediaMetadata(metadata);
+};
+
+export const setMediaSessionPlaying = (claimant: object, playing: boolean) => {
+  if (!hasMediaSession() || owner !== claimant) return;
+  navigator.mediaSession.playbackState = playing ? 'playing' : 'paused';
+};
+
+export const setMediaSessionPosition = (claimant: object, state: Required<MediaPositionState>) => {
+  if (!hasMediaSession() || owner !== claimant || !navigator.mediaSession.setPositionState) return;
+  if (!(state.duration > 0) || !Number.isFinite(state.duration) || !state.playbackRate) return;
+  try {
+    navigator.mediaSession.setPositionState({ ...state, position: Math.min(state.duration, Math.max(0, state.position)) });
+  } catch (e) {
+    console.warn("Could not update media position:", e);
+  }
+};
+
+// A still of the current frame, for the artwork of the OS media controls.
+// Null when the browser will not hand out the pixels (cross-origin media without CORS).
+export const captureFrame = (video: HTMLVideoElement, width = 512): string | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(width * video.videoHeight / video.videoWidth);
+  try {
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch {
+    return null;
+  }
+};
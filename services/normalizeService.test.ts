@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { SkipCategory } from '../types';
+import { describeReport, normalizeAnalysis, normalizeChapters, normalizeSegments, parseAnalysisPayload } from './normalizeService';
+
+describe('parseAnalysisPayload', () => {
+  it('rejects responses without a segment list', () => {
+    expect(() => parseAnalysisPayload(null)).toThrow('returned no analysis object');
+    expect(() => parseAnalysisPayload({ summary: 'x' }, 'Test')).toThrow('Test response is missing the "segments" list');
+  });
+
+  it('names the segment with a broken time', () => {
+    expect(() => parseAnalysisPayload({ segments: [{ start: 1, end: 2 }, { start: 'a', end: 3 }] }))
+      .toThrow('segment 2 has no valid "start" time');
+    expect(() => parseAnalysisPayload({ segments: [{ start: 1, end: Infinity }] }))
+      .toThrow('segment 1 has no valid "end" time');
+  });
+
+  it('fills in defaults and drops unknown values', () => {
+    const result = parseAnalysisPayload({
+      segments: [{ start: 1, end: 2, reason: '  ', category: 'nonsense', confidence: 3 }],
+    });
+    expect(result).toEqual({ segments: [{ start: 1, end: 2, reason: 'Skippable', confidence: 1 }], summary: '' });
+  });
+
+  it('keeps known categories and trims reasons', () => {
+    const { segments } = parseAnalysisPayload({ segments: [{ start: 0, end: 1, reason: ' Um ', category: SkipCategory.FILLER }] });
+    expect(segments[0]).toEqual({ start: 0, end: 1, reason: 'Um', category: SkipCategory.FILLER });
+  });
+
+  it('drops malformed transcript lines and chapters instead of failing', () => {
+    const result = parseAnalysisPayload({
+      segments: [],
+      transcript: [{ start: 1, text: ' hi ' }, { start: 'x', text: 'no' }, { start: 2, end: 1, text: 'back' }, null],
+      chapters: [{ start: 0, title: ' Intro ', description: '' }, { start: 5, title: '' }],
+    });
+    expect(result.transcript).toEqual([{ start: 1, end: 1, text: 'hi' }, { start: 2, end: 2, text: 'back' }]);
+    expect(result.chapters).toEqual([{ start: 0, title: 'Intro' }]);
+  });
+});
+
+describe('normalizeSegments', () => {
+  it('clamps to the media and drops inverted segments', () => {
+    const { segments, report } = normalizeSegments(
+      [{ start: -2, end: 3, reason: 'a' }, { start: 8, end: 12, reason: 'b' }, { start: 5, end: 4, reason: 'c' }],
+      { duration: 10 }
+    );
+    expect(segments.map(s => [s.start, s.end])).toEqual([[0, 3], [8, 10]]);
+    expect(report).toMatchObject({ clamped: 2, invalid: 1 });
+  });
+
+  it('sorts, merges overlaps and widens gaps that are too small', () => {
+    const { segments, report } = normalizeSegments([
+      { start: 10, end: 12, reason: 'late' },
+      { start: 1, end: 4, reason: 'a' },
+      { start: 3, end: 6, reason: 'b' },
+      { start: 6.2, end: 9, reason: 'close' },
+    ]);
+    expect(segments.map(s => [s.start, s.end])).toEqual([[1, 6], [6.5, 9], [10, 12]]);
+    expect(report).toMatchObject({ reordered: true, merged: 1, gapsWidened: 1, slivers: 0 });
+  });
+
+  it('drops slivers', () => {
+    const { segments, report } = normalizeSegments([{ start: 1, end: 1.1, reason: 'blip' }]);
+    expect(segments).toEqual([]);
+    expect(report.slivers).toBe(1);
+  });
+});
+
+describe('normalizeChapters', () => {
+  it('starts the first chapter at zero and drops duplicates and chapters past the end', () => {
+    const chapters = normalizeChapters(
+      [{ start: 30, title: 'B' }, { start: 5, title: 'A' }, { start: 30.5, title: 'B again' }, { start: 99, title: 'Gone' }],
+      60
+    );
+    expect(chapters).toEqual([{ start: 0, title: 'A' }, { start: 30, title: 'B' }]);
+  });
+});
+
+describe('normalizeAnalysis', () => {
+  it('normalizes transcripts and chapters along with the segments', () => {
+    const { result } = normalizeAnalysis({
+      segments: [],
+      summary: '',
+      transcript: [{ start: 20, end: 25, text: 'b' }, { start: 2, end: 3, text: 'a' }],
+      chapters: [{ start: 4, title: 'Only' }],
+    }, { duration: 22 });
+    expect(result.transcript).toEqual([{ start: 2, end: 3, text: 'a' }, { start: 20, end: 22, text: 'b' }]);
+    expect(result.chapters).toEqual([{ start: 0, title: 'Only' }]);
+  });
+});
+
+describe('describeReport', () => {
+  it('lists only what changed', () => {
+    expect(describeReport({ invalid: 0, clamped: 2, reordered: true, merged: 0, slivers: 1, gapsWidened: 0 }))
+      .toBe('2 clamped to the video, sorted by time, 1 slivers dropped');
+    expect(describeReport({ invalid: 0, clamped: 0, reordered: false, merged: 0, slivers: 0, gapsWidened: 0 })).toBe('');
+  });
+});
@@ -0,0 +1,205 @@
+import { AnalysisResult, Chapter, SkipCategory, SkipSegment, TranscriptLine } from '../types';
+import { mergeOverlapping } from './segmentUtils';
+import { parseRecordedProfile } from './profileService';
+
+export interface NormalizeOptions {
+  duration?: number;  // Media length; segments are clamped to it when known
+  minSegment: number; // Skips shorter than this (seconds) are dropped
+  minGap: number;     // Least amount of kept content (seconds) between two skips
+}
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+  minSegment: 0.3,
+  minGap: 0.5,
+};
+
+export interface NormalizationReport {
+  invalid: number;   // end <= start, dropped
+  clamped: number;   // moved inside [0, duration]
+  reordered: boolean;
+  merged: number;    // overlapping segments folded into a neighbour
+  slivers: number;   // shorter than minSegment, dropped
+  gapsWidened: number;
+}
+
+const CATEGORIES = Object.values(SkipCategory) as string[];
+
+// Checks the shape of an analyzer response and returns it as an AnalysisResult.
+// Structural problems throw; value problems (order, overlaps, bounds) are left to normalizeSegments.
+export const parseAnalysisPayload = (data: unknown, source = 'Analyzer'): AnalysisResult => {
+  if (!data || typeof data !== 'object') {
+    throw new Error(`${source} returned no analysis object`);
+  }
+  const payload = data as Record<string, unknown>;
+  if (!Array.isArray(payload.segments)) {
+    throw new Error(`${source} response is missing the "segments" list`);
+  }
+
+  const segments = payload.segments.map((raw, i): SkipSegment => {
+    const seg = raw as Record<string, unknown>;
+    if (!seg || typeof seg !== 'object') {
+      throw new Error(`${source} segment ${i + 1} is not an object`);
+    }
+    if (typeof seg.start !== 'number' || !Number.isFinite(seg.start)) {
+      throw new Error(`${source} segment ${i + 1} has no valid "start" time`);
+    }
+    if (typeof seg.end !== 'number' || !Number.isFinite(seg.end)) {
+      throw new Error(`${source} segment ${i + 1} has no valid "end" time`);
+    }
+
+    const segment: SkipSegment = {
+      start: seg.start,
+      end: seg.end,
+      reason: typeof seg.reason === 'string' && seg.reason.trim() ? seg.reason.trim() : 'Skippable',
+    };
+    if (typeof seg.category === 'string' && CATEGORIES.includes(seg.category)) {
+      segment.category = seg.category as SkipCategory;
+    }
+    if (typeof seg.confidence === 'number' && Number.isFinite(seg.confidence)) {
+      segment.confidence = Math.min(1, Math.max(0, seg.confidence));
+    }
+    return segment;
+  });
+
+  const result: AnalysisResult = {
+    segments,
+    summary: typeof payload.summary === 'string' ? payload.summary : '',
+  };
+  if (Array.isArray(payload.transcript)) {
+    result.transcript = parseTranscript(payload.transcript);
+  }
+  if (Array.isArray(payload.chapters)) {
+    result.chapters = parseChapters(payload.chapters);
+  }
+  const profile = parseRecordedProfile(payload.profile);
+  if (profile) result.profile = profile;
+  return result;
+};
+
+// Like the transcript, chapters are optional; malformed ones are dropped.
+const parseChapters = (chapters: unknown[]): Chapter[] => {
+  const parsed: Chapter[] = [];
+  for (const raw of chapters) {
+    const chapter = raw as Record<string, unknown>;
+    if (!chapter || typeof chapter !== 'object') continue;
+    if (typeof chapter.start !== 'number' || !Number.isFinite(chapter.start)) continue;
+    if (typeof chapter.title !== 'string' || !chapter.title.trim()) continue;
+    const entry: Chapter = { start: chapter.start, title: chapter.title.trim() };
+    if (typeof chapter.description === 'string' && chapter.description.trim()) {
+      entry.description = chapter.description.trim();
+    }
+    parsed.push(entry);
+  }
+  return parsed;
+};
+
+// The transcript is optional extra information, so malformed lines are dropped instead of failing the analysis.
+const parseTranscript = (lines: unknown[]): TranscriptLine[] => {
+  const parsed: TranscriptLine[] = [];
+  for (const raw of lines) {
+    const line = raw as Record<string, unknown>;
+    if (!line || typeof line !== 'object') continue;
+    if (typeof line.start !== 'number' || !Number.isFinite(line.start)) continue;
+    if (typeof line.text !== 'string' || !line.text.trim()) continue;
+    const end = typeof line.end === 'number' && Number.isFinite(line.end) ? line.end : line.start;
+    parsed.push({ start: line.start, end: Math.max(line.start, end), text: line.text.trim() });
+  }
+  return parsed;
+};
+
+// Sorts transcript lines and clamps them to the media.
+export const normalizeTranscript = (lines: TranscriptLine[], duration?: number): TranscriptLine[] => {
+  const limit = duration && Number.isFinite(duration) ? duration : Infinity;
+  return lines
+    .map(line => ({ ...line, start: Math.min(Math.max(0, line.start), limit), end: Math.min(Math.max(0, line.end), limit) }))
+    .filter(line => line.start < limit)
+    .sort((a, b) => a.start - b.start);
+};
+
+export const normalizeSegments = (
+  segments: SkipSegment[],
+  options: Partial<NormalizeOptions> = {}
+): { segments: SkipSegment[]; report: NormalizationReport } => {
+  const { duration, minSegment, minGap } = { ...DEFAULT_NORMALIZE_OPTIONS, ...options };
+  const limit = duration && Number.isFinite(duration) ? duration : Infinity;
+  const report: NormalizationReport = { invalid: 0, clamped: 0, reordered: false, merged: 0, slivers: 0, gapsWidened: 0 };
+
+  // 1. Clamp to the media and drop empty or inverted segments
+  const clamped: SkipSegment[] = [];
+  for (const seg of segments) {
+    const start = Math.min(Math.max(0, seg.start), limit);
+    const end = Math.min(Math.max(0, seg.end), limit);
+    if (start !== seg.start || end !== seg.end) report.clamped++;
+    if (end <= start) {
+      report.invalid++;
+      continue;
+    }
+    clamped.push({ ...seg, start, end });
+  }
+
+  // 2. Sort and merge overlaps
+  report.reordered = clamped.some((seg, i) => i > 0 && seg.start < clamped[i - 1].start);
+  const merged = mergeOverlapping(clamped);
+  report.merged = clamped.length - merged.length;
+
+  // 3. Leave at least minGap of content between skips, so playback never flickers
+  //    through a few frames or lands back inside the previous skip
+  const result: SkipSegment[] = [];
+  for (const seg of merged) {
+    const prev = result[result.length - 1];
+    let start = seg.start;
+    if (prev && start - prev.end < minGap) {
+      start = prev.end + minGap;
+      report.gapsWidened++;
+    }
+    if (seg.end - start < minSegment) {
+      report.slivers++;
+      continue;
+    }
+    result.push(start === seg.start ? seg : { ...seg, start });
+  }
+
+  return { segments: result, report };
+};
+
+// Sorts chapters, drops the ones past the end and keeps one chapter per start time.
+// The first chapter is moved to 0 so every moment of the video belongs to a chapter.
+export const normalizeChapters = (chapters: Chapter[], duration?: number): Chapter[] => {
+  const limit = duration && Number.isFinite(duration) ? duration : Infinity;
+  const sorted = chapters
+    .map(chapter => ({ ...chapter, start: Math.max(0, chapter.start) }))
+    .filter(chapter => chapter.start < limit)
+    .sort((a, b) => a.start - b.start);
+
+  const result: Chapter[] = [];
+  for (const chapter of sorted) {
+    const prev = result[result.length - 1];
+    if (prev && chapter.start - prev.start < 1) continue;
+    result.push(chapter);
+  }
+  if (result.length > 0) result[0] = { ...result[0], start: 0 };
+  return result;
+};
+
+export const normalizeAnalysis = (
+  result: AnalysisResult,
+  options: Partial<NormalizeOptions> = {}
+): { result: AnalysisResult; report: NormalizationReport } => {
+  const { segments, report } = normalizeSegments(result.segments, options);
+  const normalized: AnalysisResult = { ...result, segments };
+  if (result.transcript) normalized.transcript = normalizeTranscript(result.transcript, options.duration);
+  if (result.chapters) normalized.chapters = normalizeChapters(result.chapters, options.duration);
+  return { result: normalized, report };
+};
+
+export const describeReport = (report: NormalizationReport): string => {
+  const changes = [
+    report.invalid && `${report.invalid} empty or inverted dropped`,
+    report.clamped && `${report.clamped} clamped to the video`,
+    report.reordered && 'sorted by time',
+    report.merged && `${report.merged} overlaps merged`,
+    report.slivers && `${report.slivers} slivers dropped`,
+    report.gapsWidened && `${report.gapsWidened} gaps widened`,
+  ].filter(Boolean);
+  return changes.join(', ');
+};
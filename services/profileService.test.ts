@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SkipCategory, SkipProfile } from '../types';
+import { applyProfile, DEFAULT_SKIP_PROFILES, hasProfileEffect, parseRecordedProfile, profileInstructions, profileSignature } from './profileService';
+
+const profile: SkipProfile = {
+  id: 'p',
+  name: 'Lecture',
+  instructions: '  Keep the questions. ',
+  excludedCategories: [SkipCategory.OFF_TOPIC],
+  aggressiveness: 'conservative',
+};
+
+describe('parseRecordedProfile', () => {
+  it('drops unusable profiles and repairs bad fields', () => {
+    expect(parseRecordedProfile(null)).toBeUndefined();
+    expect(parseRecordedProfile({ id: 1, name: 'x' })).toBeUndefined();
+    expect(parseRecordedProfile({ id: 'a', name: 'A', excludedCategories: ['silence', 'bogus'], aggressiveness: 'wild' })).toEqual({
+      id: 'a',
+      name: 'A',
+      instructions: '',
+      excludedCategories: [SkipCategory.SILENCE],
+      aggressiveness: 'balanced',
+    });
+  });
+});
+
+describe('profile effects', () => {
+  it('treats the default profile as no profile at all', () => {
+    expect(hasProfileEffect(DEFAULT_SKIP_PROFILES[0])).toBe(false);
+    expect(hasProfileEffect(undefined)).toBe(false);
+    expect(profileInstructions(DEFAULT_SKIP_PROFILES[0])).toBe('');
+    expect(hasProfileEffect(profile)).toBe(true);
+  });
+
+  it('signs what changes the analysis and nothing else', () => {
+    expect(profileSignature(profile)).toBe(profileSignature({ ...profile, id: 'other', name: 'Renamed' }));
+    expect(profileSignature(profile)).not.toBe(profileSignature({ ...profile, aggressiveness: 'aggressive' }));
+  });
+
+  it('spells out the profile for the prompt', () => {
+    const text = profileInstructions(profile);
+    expect(text).toContain('Be conservative');
+    expect(text).toContain('"off_topic" (off-topic)');
+    expect(text).toContain('Additional instructions from the viewer:\nKeep the questions.');
+  });
+});
+
+describe('applyProfile', () => {
+  it('drops kept categories, including ones guessed from the reason, and records the profile', () => {
+    const result = applyProfile({
+      summary: '',
+      segments: [
+        { start: 0, end: 1, reason: 'Off-topic story' },
+        { start: 2, end: 3, reason: 'Um', category: SkipCategory.FILLER },
+      ],
+    }, profile);
+    expect(result.segments.map(s => s.reason)).toEqual(['Um']);
+    expect(result.profile).toBe(profile);
+  });
+});
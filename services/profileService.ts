@@ -0,0 +1,134 @@
+import { AnalysisResult, SkipAggressiveness, SkipCategory, SkipProfile } from '../types';
+import { CATEGORY_INFO, getCategory, SKIP_CATEGORIES } from './skipPolicyService';
+
+const PROFILES_KEY = 'smartskip.skipProfiles';
+const SELECTED_KEY = 'smartskip.skipProfile';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const AGGRESSIVENESS_LEVELS: { id: SkipAggressiveness; label: string }[] = [
+  { id: 'conservative', label: 'Conservative' },
+  { id: 'balanced', label: 'Balanced' },
+  { id: 'aggressive', label: 'Aggressive' },
+];
+
+const AGGRESSIVENESS_NOTES: Record<SkipAggressiveness, string> = {
+  conservative: 'Be conservative: only mark segments that are clearly skippable and leave out borderline cases.',
+  balanced: '',
+  aggressive: 'Be aggressive: also mark short pauses, mild digressions and borderline cases, with a lower confidence where unsure.',
+};
+
+export const DEFAULT_SKIP_PROFILES: SkipProfile[] = [
+  { id: DEFAULT_PROFILE_ID, name: 'Default', instructions: '', excludedCategories: [], aggressiveness: 'balanced' },
+  {
+    id: 'lecture',
+    name: 'Lecture capture',
+    instructions: 'Audience questions and the answers to them are part of the lecture; never mark them as skippable.',
+    excludedCategories: [SkipCategory.OFF_TOPIC],
+    aggressiveness: 'conservative',
+  },
+  {
+    id: 'podcast',
+    name: 'Podcast',
+    instructions: 'Mark every sponsor read, ad break and self-promotion (merch, Patreon, "like and subscribe") from its first to its last word.',
+    excludedCategories: [],
+    aggressiveness: 'aggressive',
+  },
+  {
+    id: 'code-review',
+    name: 'Code review',
+    instructions: 'Quiet stretches where code is being typed, scrolled through or run on screen are demonstrations, not silence; keep them.',
+    excludedCategories: [SkipCategory.SILENCE],
+    aggressiveness: 'balanced',
+  },
+];
+
+let nextId = 0;
+
+export const createProfile = (name: string): SkipProfile => ({
+  id: `${Date.now().toString(36)}-${nextId++}`,
+  name,
+  instructions: '',
+  excludedCategories: [],
+  aggressiveness: 'balanced',
+});
+
+// Stored profiles are user input from an older version at worst; anything unusable is dropped.
+const parseProfile = (raw: any): SkipProfile | null => {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    instructions: typeof raw.instructions === 'string' ? raw.instructions : '',
+    excludedCategories: Array.isArray(raw.excludedCategories)
+      ? raw.excludedCategories.filter((c: unknown) => SKIP_CATEGORIES.includes(c as SkipCategory))
+      : [],
+    aggressiveness: AGGRESSIVENESS_LEVELS.some(l => l.id === raw.aggressiveness) ? raw.aggressiveness : 'balanced',
+  };
+};
+
+export const loadSkipProfiles = (): SkipProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (!raw) return DEFAULT_SKIP_PROFILES;
+    const profiles = (JSON.parse(raw) as unknown[]).map(parseProfile).filter((p): p is SkipProfile => !!p);
+    return profiles.length ? profiles : DEFAULT_SKIP_PROFILES;
+  } catch (e) {
+    console.warn("Ignoring unreadable skip profiles:", e);
+    return DEFAULT_SKIP_PROFILES;
+  }
+};
+
+export const saveSkipProfiles = (profiles: SkipProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadSelectedProfileId = (): string => localStorage.getItem(SELECTED_KEY) || DEFAULT_PROFILE_ID;
+
+export const saveSelectedProfileId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
+
+// Accepts the profile recorded in an imported or cached result
+export const parseRecordedProfile = (raw: unknown): SkipProfile | undefined => parseProfile(raw) || undefined;
+
+// A profile that changes nothing keeps the cache keys and prompts of analyses made before profiles existed
+export const hasProfileEffect = (profile?: SkipProfile): profile is SkipProfile =>
+  !!profile && (!!profile.instructions.trim() || profile.excludedCategories.length > 0 || profile.aggressiveness !== 'balanced');
+
+// Short stable hash of everything that changes the analysis, for cache keys. The name is left out on purpose.
+export const profileSignature = (profile: SkipProfile): string => {
+  const text = JSON.stringify([profile.instructions.trim(), [...profile.excludedCategories].sort(), profile.aggressiveness]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// The part of an analysis prompt a profile adds; empty for profiles without an effect.
+export const profileInstructions = (profile?: SkipProfile): string => {
+  if (!hasProfileEffect(profile)) return '';
+  const notes = [AGGRESSIVENESS_NOTES[profile.aggressiveness]];
+  if (profile.excludedCategories.length) {
+    const labels = profile.excludedCategories.map(c => `"${c}" (${CATEGORY_INFO[c].label.toLowerCase()})`);
+    notes.push(`The viewer wants to keep everything in these categories; do not report them as segments: ${labels.join(', ')}.`);
+  }
+  if (profile.instructions.trim()) {
+    notes.push(`Additional instructions from the viewer:\n${profile.instructions.trim()}`);
+  }
+  return notes.filter(Boolean).join('\n');
+};
+
+// Drops segments the profile keeps and records which profile produced the result.
+// Analyzers without a prompt only get this part of a profile.
+export const applyProfile = (result: AnalysisResult, profile?: SkipProfile): AnalysisResult => {
+  if (!profile) return result;
+  const excluded = new Set(profile.excludedCategories);
+  return {
+    ...result,
+    segments: excluded.size ? result.segments.filter(seg => !excluded.has(getCategory(seg))) : result.segments,
+    profile,
+  };
+};
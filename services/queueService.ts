@@ -0,0 +1,30 @@
+import { AnalysisStatus, QueueItem } from '../types';
+
+const CONCURRENCY_KEY = 'smartskip.queueConcurrency';
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+export const MAX_QUEUE_CONCURRENCY = 6;
+
+let nextId = 0;
+
+export const createQueueItem = (source: File | string): QueueItem => {
+  const isFile = typeof source !== 'string';
+  return {
+    id: `${Date.now().toString(36)}-${nextId++}`,
+    name: isFile ? source.name : source,
+    file: isFile ? source : undefined,
+    url: isFile ? undefined : source,
+    status: AnalysisStatus.IDLE,
+    progress: '',
+    analyzedUntil: 0,
+  };
+};
+
+export const loadQueueConcurrency = (): number => {
+  const value = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return Number.isInteger(value) && value >= 1 && value <= MAX_QUEUE_CONCURRENCY ? value : DEFAULT_QUEUE_CONCURRENCY;
+};
+
+export const saveQueueConcurrency = (value: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(value));
+};
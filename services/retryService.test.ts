@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cancelledError, isCancelled, isRetryable, withRetry } from './retryService';
+
+describe('isRetryable', () => {
+  it('retries rate limits, overload and dropped connections', () => {
+    expect(isRetryable({ status: 429 })).toBe(true);
+    expect(isRetryable(new Error('Upload failed, status 503'))).toBe(true);
+    expect(isRetryable(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryable(new TypeError('Network request failed'))).toBe(true);
+  });
+
+  it('fails straight away on client errors, bugs and cancellation', () => {
+    expect(isRetryable({ status: 400 })).toBe(false);
+    expect(isRetryable(new Error('status: 403'))).toBe(false);
+    expect(isRetryable(new TypeError('x is not a function'))).toBe(false);
+    expect(isRetryable(cancelledError())).toBe(false);
+  });
+});
+
+describe('isCancelled', () => {
+  it('recognizes any AbortError', () => {
+    expect(isCancelled(cancelledError())).toBe(true);
+    expect(isCancelled(Object.assign(new Error('x'), { name: 'AbortError' }))).toBe(true);
+    expect(isCancelled(new Error('AbortError'))).toBe(false);
+    expect(isCancelled(null)).toBe(false);
+    expect(isCancelled('AbortError')).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the task succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce({ status: 503 })
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(task, { baseDelayMs: 1, onRetry })).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), { status: 503 });
+  });
+
+  it('gives up after the last retry', async () => {
+    const task = vi.fn().mockRejectedValue({ status: 500 });
+    await expect(withRetry(task, { retries: 2, baseDelayMs: 1 })).rejects.toEqual({ status: 500 });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops when the signal fires', async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      controller.abort();
+      throw { status: 503 };
+    });
+    await expect(withRetry(task, { signal: controller.signal, baseDelayMs: 1 })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,69 @@
+// Cancellation and retry helpers for network-bound analysis. A cancelled run always surfaces as an
+// AbortError, so callers can tell it apart from a real failure.
+
+// Rate limits, overload and gateway hiccups; anything else fails straight away
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+export interface RetryOptions {
+  retries?: number;     // Extra attempts after the first one
+  baseDelayMs?: number; // Doubled after every failed attempt, with jitter
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export const DEFAULT_RETRY = { retries: 4, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export const cancelledError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const isCancelled = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError';
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// The SDK's ApiError carries `status`; our own errors put it in the message ("status 503")
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  const match = /\bstatus:?\s*(\d{3})\b/i.exec(String(error?.message || ''));
+  return match ? Number(match[1]) : undefined;
+};
+
+export const isRetryable = (error: unknown) => {
+  if (isCancelled(error)) return false;
+  const status = statusOf(error);
+  if (status !== undefined) return RETRYABLE_STATUS.includes(status);
+  // fetch rejects with a TypeError when the connection drops
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+};
+
+// Runs `task` until it succeeds, fails for good or the signal fires.
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(options.signal);
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted) throw cancelledError();
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      options.onRetry?.(attempt + 1, delay, error);
+      await sleep(delay, options.signal);
+    }
+  }
+};
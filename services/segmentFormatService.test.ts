@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult } from '../types';
+import { parseSegmentsFile, serializeSegments } from './segmentFormatService';
+
+const result: AnalysisResult = {
+  summary: 'Test',
+  segments: [
+    { start: 1.5, end: 3, reason: 'Um' },
+    { start: 3661.25, end: 3662, reason: 'Pause' },
+  ],
+};
+const ctx = { fileName: 'talk.mp4', duration: 3700 };
+
+const file = (name: string, content: string) => new File([content], name);
+
+describe('serializeSegments', () => {
+  it('writes WebVTT and SRT cues with their own separators', () => {
+    expect(serializeSegments('vtt', result, ctx)).toBe(
+      'WEBVTT\n\n1\n00:00:01.500 --> 00:00:03.000\nUm\n\n2\n01:01:01.250 --> 01:01:02.000\nPause\n'
+    );
+    expect(serializeSegments('srt', result, ctx)).toContain('1\n00:00:01,500 --> 00:00:03,000\nUm');
+  });
+
+  it('writes one EDL event per kept range', () => {
+    const edl = serializeSegments('edl', result, ctx);
+    expect(edl).toContain('TITLE: TALK CONDENSED');
+    expect(edl).toContain('001  AX       AA/V  C        00:00:00:00 00:00:01:15 00:00:00:00 00:00:01:15');
+    expect(edl.match(/^\d{3} /gm)).toHaveLength(3);
+  });
+
+  it('quotes the file name in ffmpeg scripts as a shell literal', () => {
+    const script = serializeSegments('ffmpeg', result, { ...ctx, fileName: "it's $(rm -rf x)\n.mp4" });
+    expect(script).toContain(`INPUT=\${1:-'it'\\''s $(rm -rf x)\n.mp4'}`);
+    expect(script.split('\n')[1]).toBe("# SmartSkip condensed cut of it's $(rm -rf x) .mp4: 3 kept ranges");
+  });
+});
+
+describe('parseSegmentsFile', () => {
+  it('reads back what it writes', async () => {
+    for (const [format, extension] of [['json', 'skips.json'], ['vtt', 'vtt'], ['srt', 'srt']] as const) {
+      const parsed = await parseSegmentsFile(file(`talk.${extension}`, serializeSegments(format, result, ctx)));
+      expect(parsed.segments.map(s => [s.start, s.end, s.reason])).toEqual([[1.5, 3, 'Um'], [3661.25, 3662, 'Pause']]);
+    }
+  });
+
+  it('turns the gaps between EDL events into skips, to the nearest frame', async () => {
+    const parsed = await parseSegmentsFile(file('talk.edl', serializeSegments('edl', result, ctx)));
+    expect(parsed.segments).toHaveLength(2);
+    parsed.segments.forEach((seg, i) => {
+      expect(Math.abs(seg.start - result.segments[i].start)).toBeLessThanOrEqual(1 / 30);
+      expect(Math.abs(seg.end - result.segments[i].end)).toBeLessThanOrEqual(1 / 30);
+    });
+  });
+
+  it('refuses newer segment files and unknown formats', async () => {
+    await expect(parseSegmentsFile(file('a.json', JSON.stringify({ format: 'smartskip-segments', version: 99, segments: [] }))))
+      .rejects.toThrow('newer than this player supports');
+    await expect(parseSegmentsFile(file('a.json', '{'))).rejects.toThrow('not valid JSON');
+    await expect(parseSegmentsFile(file('a.vtt', 'WEBVTT\n\n1\n00:01 --> nope\nx'))).rejects.toThrow('Invalid timestamp');
+    await expect(parseSegmentsFile(file('a.txt', ''))).rejects.toThrow('Unsupported segments file');
+  });
+});
@@ -0,0 +1,211 @@
+import { AnalysisResult, SkipSegment } from '../types';
+import { parseAnalysisPayload } from './normalizeService';
+import { getKeptRanges } from './segmentUtils';
+
+export const SEGMENTS_FORMAT_ID = 'smartskip-segments';
+export const SEGMENTS_FORMAT_VERSION = 1;
+
+// EDL timecodes need a frame rate; browsers do not expose the real one, so we use a common default.
+const EDL_FPS = 30;
+
+export type ExportFormat = 'json' | 'edl' | 'vtt' | 'srt' | 'ffmpeg';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'json', label: 'JSON', extension: 'skips.json', mimeType: 'application/json' },
+  { id: 'edl', label: 'EDL', extension: 'edl', mimeType: 'text/plain' },
+  { id: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  { id: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'ffmpeg', label: 'ffmpeg', extension: 'ffmpeg.sh', mimeType: 'text/x-shellscript' },
+];
+
+export interface ExportContext {
+  fileName: string;
+  duration: number;
+}
+
+const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+
+const formatClock = (time: number, separator: '.' | ',') => {
+  const totalMs = Math.round(Math.max(0, time) * 1000);
+  const h = totalMs / 3600000;
+  const m = (totalMs % 3600000) / 60000;
+  const s = (totalMs % 60000) / 1000;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+const formatTimecode = (time: number) => {
+  const totalFrames = Math.round(Math.max(0, time) * EDL_FPS);
+  const frames = totalFrames % EDL_FPS;
+  const totalSeconds = Math.floor(totalFrames / EDL_FPS);
+  return `${pad(totalSeconds / 3600)}:${pad((totalSeconds % 3600) / 60)}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+const parseClock = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) throw new Error(`Invalid timestamp "${value}"`);
+  const [, h, m, s, ms] = match;
+  return Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+};
+
+const parseTimecode = (value: string): number => {
+  const match = value.match(/^(\d{2}):(\d{2}):(\d{2})[:;](\d{2})$/);
+  if (!match) throw new Error(`Invalid timecode "${value}"`);
+  const [, h, m, s, f] = match.map(Number);
+  return h * 3600 + m * 60 + s + f / EDL_FPS;
+};
+
+const toJson = (result: AnalysisResult, ctx: ExportContext) => JSON.stringify({
+  format: SEGMENTS_FORMAT_ID,
+  version: SEGMENTS_FORMAT_VERSION,
+  fileName: ctx.fileName,
+  duration: ctx.duration,
+  summary: result.summary,
+  segments: result.segments,
+  transcript: result.transcript,
+  chapters: result.chapters,
+  profile: result.profile,
+}, null, 2);
+
+// CMX3600 EDL with one event per kept range, laid back to back on the record side.
+const toEdl = (result: AnalysisResult, ctx: ExportContext) => {
+  const title = ctx.fileName.replace(/\.[^.]+$/, '').toUpperCase().slice(0, 60);
+  const lines = [`TITLE: ${title} CONDENSED`, 'FCM: NON-DROP FRAME', ''];
+  let recordTime = 0;
+
+  getKeptRanges(result.segments, ctx.duration).forEach((range, i) => {
+    const length = range.end - range.start;
+    lines.push(
+      `${pad(i + 1, 3)}  AX       AA/V  C        ${formatTimecode(range.start)} ${formatTimecode(range.end)} ${formatTimecode(recordTime)} ${formatTimecode(recordTime + length)}`,
+      `* FROM CLIP NAME: ${ctx.fileName}`,
+      ''
+    );
+    recordTime += length;
+  });
+
+  return lines.join('\n');
+};
+
+const toVtt = (result: AnalysisResult) => {
+  const cues = result.segments.map((seg, i) =>
+    `${i + 1}\n${formatClock(seg.start, '.')} --> ${formatClock(seg.end, '.')}\n${seg.reason}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+const toSrt = (result: AnalysisResult) => {
+  return result.segments.map((seg, i) =>
+    `${i + 1}\n${formatClock(seg.start, ',')} --> ${formatClock(seg.end, ',')}\n${seg.reason}`
+  ).join('\n\n') + '\n';
+};
+
+// File names come from URLs and disks; a single-quoted literal keeps $(...), backticks and quotes inert
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const toFfmpeg = (result: AnalysisResult, ctx: ExportContext) => {
+  const ranges = getKeptRanges(result.segments, ctx.duration);
+  const expr = ranges.map(r => `between(t,${r.start.toFixed(3)},${r.end.toFixed(3)})`).join('+') || '0';
+  const output = ctx.fileName.replace(/(\.[^.]+)?$/, '.condensed$1');
+  return [
+    '#!/bin/sh',
+    `# SmartSkip condensed cut of ${ctx.fileName.replace(/[\r\n]+/g, ' ')}: ${ranges.length} kept ranges`,
+    '# Usage: sh this-script.sh [input] [output]',
+    `INPUT=\${1:-${shellQuote(ctx.fileName)}}`,
+    `OUTPUT=\${2:-${shellQuote(output)}}`,
+    'ffmpeg -i "$INPUT" \\',
+    `  -vf "select='${expr}',setpts=N/FRAME_RATE/TB" \\`,
+    `  -af "aselect='${expr}',asetpts=N/SR/TB" \\`,
+    '  "$OUTPUT"',
+    '',
+  ].join('\n');
+};
+
+export const serializeSegments = (format: ExportFormat, result: AnalysisResult, ctx: ExportContext): string => {
+  switch (format) {
+    case 'json': return toJson(result, ctx);
+    case 'edl': return toEdl(result, ctx);
+    case 'vtt': return toVtt(result);
+    case 'srt': return toSrt(result);
+    case 'ffmpeg': return toFfmpeg(result, ctx);
+  }
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const fromJson = (text: string): AnalysisResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  if (data?.format === SEGMENTS_FORMAT_ID && data.version > SEGMENTS_FORMAT_VERSION) {
+    throw new Error(`Segments file version ${data.version} is newer than this player supports`);
+  }
+  const result = parseAnalysisPayload(data, 'Segments file');
+  return { ...result, summary: result.summary || 'Imported segments' };
+};
+
+// Shared by WebVTT and SRT: every cue becomes a segment, its text the reason.
+const fromCues = (text: string): AnalysisResult => {
+  const segments: SkipSegment[] = [];
+  for (const block of text.replace(/\r/g, '').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex < 0) continue;
+    const [from, to] = lines[timingIndex].split('-->').map(part => part.trim().split(/\s+/)[0]);
+    segments.push({
+      start: parseClock(from),
+      end: parseClock(to),
+      reason: lines.slice(timingIndex + 1).join(' ').trim() || 'Imported',
+    });
+  }
+  if (segments.length === 0) throw new Error("No cues found in subtitle file");
+  return { segments, summary: 'Imported segments' };
+};
+
+// Skips are the gaps between consecutive source ranges of the EDL events.
+const fromEdl = (text: string): AnalysisResult => {
+  const ranges = text.split('\n')
+    .map(line => line.trim().split(/\s+/))
+    .filter(parts => /^\d{3,}$/.test(parts[0]) && parts.length >= 8)
+    .map(parts => ({ start: parseTimecode(parts[parts.length - 4]), end: parseTimecode(parts[parts.length - 3]) }))
+    .sort((a, b) => a.start - b.start);
+  if (ranges.length === 0) throw new Error("No events found in EDL");
+
+  const segments: SkipSegment[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start > cursor) segments.push({ start: cursor, end: range.start, reason: 'Cut' });
+    cursor = Math.max(cursor, range.end);
+  }
+  return { segments, summary: 'Imported from EDL' };
+};
+
+export const parseSegmentsFile = async (file: File): Promise<AnalysisResult> => {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.json')) return fromJson(text);
+  if (name.endsWith('.vtt') || name.endsWith('.srt')) return fromCues(text);
+  if (name.endsWith('.edl')) return fromEdl(text);
+
+  throw new Error("Unsupported segments file. Use .json, .vtt, .srt or .edl");
+};
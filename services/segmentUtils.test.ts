@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { SkipPolicy, SkipSegment } from '../types';
+import { condensedDuration, condensedTimeline, fromCondensedTime, getKeptRanges, mergeOverlapping, toCondensedTime } from './segmentUtils';
+
+describe('getKeptRanges', () => {
+  it('returns the parts between skips, clamped to the media', () => {
+    const ranges = getKeptRanges([
+      { start: 50, end: 70, reason: 'b' },
+      { start: 10, end: 20, reason: 'a' },
+      { start: 15, end: 25, reason: 'overlap' },
+      { start: 90, end: 120, reason: 'past the end' },
+    ], 100);
+    expect(ranges).toEqual([{ start: 0, end: 10 }, { start: 25, end: 50 }, { start: 70, end: 90 }]);
+  });
+});
+
+describe('mergeOverlapping', () => {
+  it('keeps the label of the more confident segment', () => {
+    const merged = mergeOverlapping([
+      { start: 5, end: 10, reason: 'sure', confidence: 0.9 },
+      { start: 0, end: 6, reason: 'unsure', confidence: 0.4 },
+      { start: 10, end: 12, reason: 'touching' },
+    ]);
+    expect(merged).toEqual([
+      { start: 0, end: 10, reason: 'sure', confidence: 0.9 },
+      { start: 10, end: 12, reason: 'touching' },
+    ]);
+  });
+});
+
+describe('condensedTimeline', () => {
+  const policies: Record<string, SkipPolicy> = { kept: 'ignore', fast: 'speed', gone: 'skip' };
+  const policyFor = (seg: SkipSegment) => policies[seg.reason];
+
+  it('resolves the policy of each original segment, not of merged copies', () => {
+    // "kept" overlaps "fast" and is more confident; merging first would have lost the speed-through
+    const pieces = condensedTimeline([
+      { start: 10, end: 20, reason: 'kept', confidence: 1 },
+      { start: 15, end: 30, reason: 'fast', confidence: 0.5 },
+      { start: 40, end: 50, reason: 'gone' },
+    ], 60, policyFor, 2);
+    expect(pieces).toEqual([
+      { start: 0, end: 15, scale: 1, offset: 0 },
+      { start: 15, end: 30, scale: 0.5, offset: 15 },
+      { start: 30, end: 40, scale: 1, offset: 22.5 },
+      { start: 50, end: 60, scale: 1, offset: 32.5 },
+    ]);
+    expect(condensedDuration(pieces)).toBe(42.5);
+  });
+
+  it('lets a skip win where it overlaps a speed-through', () => {
+    const pieces = condensedTimeline([{ start: 10, end: 30, reason: 'fast' }, { start: 20, end: 25, reason: 'gone' }], 40, policyFor, 4);
+    expect(condensedDuration(pieces)).toBe(10 + 10 / 4 + 5 / 4 + 10);
+  });
+
+  it('maps between media time and condensed time', () => {
+    const pieces = condensedTimeline([{ start: 10, end: 20, reason: 'gone' }, { start: 30, end: 40, reason: 'fast' }], 50, policyFor, 2);
+    expect(toCondensedTime(pieces, 5)).toBe(5);
+    expect(toCondensedTime(pieces, 15)).toBe(10); // Inside a skip: where the skip lands
+    expect(toCondensedTime(pieces, 34)).toBe(22);
+    expect(fromCondensedTime(pieces, 22)).toBe(34);
+    expect(fromCondensedTime(pieces, 100)).toBe(50);
+  });
+});
@@ -0,0 +1,111 @@
+import { SkipPolicy, SkipSegment } from '../types';
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// The complement of the skip segments: the parts of the media a condensed cut keeps.
+export const getKeptRanges = (segments: SkipSegment[], duration: number): TimeRange[] => {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  const kept: TimeRange[] = [];
+  let cursor = 0;
+
+  for (const seg of sorted) {
+    const start = Math.max(0, Math.min(seg.start, duration));
+    const end = Math.max(0, Math.min(seg.end, duration));
+    if (start > cursor) kept.push({ start: cursor, end: start });
+    cursor = Math.max(cursor, end);
+  }
+  if (cursor < duration) kept.push({ start: cursor, end: duration });
+
+  return kept;
+};
+
+// Sorts segments and merges the ones that overlap, keeping the label of the more confident one.
+export const mergeOverlapping = (segments: SkipSegment[]): SkipSegment[] => {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  const merged: SkipSegment[] = [];
+
+  for (const seg of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && seg.start < last.end) {
+      const keepLabel = (seg.confidence ?? 0) > (last.confidence ?? 0) ? seg : last;
+      merged[merged.length - 1] = {
+        ...keepLabel,
+        start: last.start,
+        end: Math.max(last.end, seg.end),
+      };
+    } else {
+      merged.push({ ...seg });
+    }
+  }
+  return merged;
+};
+
+// A stretch of media and how it shows up on the condensed timeline
+export interface TimelinePiece extends TimeRange {
+  scale: number;  // Condensed seconds per media second: 1 when kept, 1 / rate when sped through
+  offset: number; // Condensed time at `start`
+}
+
+// The timeline as the viewer experiences it: skipped parts removed, sped-through parts compressed.
+// Same accounting as the "condensed" figure in the stats panel. Policies are resolved on the segments
+// as given, since overrides are keyed to them; where a skip and a speed-through overlap, the skip wins.
+export const condensedTimeline = (
+  segments: SkipSegment[],
+  duration: number,
+  policyFor: (seg: SkipSegment) => SkipPolicy,
+  speedRate: number
+): TimelinePiece[] => {
+  const active = segments
+    .map(seg => ({ start: Math.max(0, seg.start), end: Math.min(seg.end, duration), policy: policyFor(seg) }))
+    .filter(range => range.policy !== 'ignore' && range.end > range.start);
+  const bounds = Array.from(new Set([0, duration, ...active.flatMap(range => [range.start, range.end])]))
+    .filter(t => t >= 0 && t <= duration)
+    .sort((a, b) => a - b);
+
+  const pieces: TimelinePiece[] = [];
+  let offset = 0;
+  const push = (start: number, end: number, scale: number) => {
+    const last = pieces[pieces.length - 1];
+    if (last && last.end === start && last.scale === scale) {
+      last.end = end;
+    } else {
+      pieces.push({ start, end, scale, offset });
+    }
+    offset += (end - start) * scale;
+  };
+
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const start = bounds[i];
+    const end = bounds[i + 1];
+    const covering = active.filter(range => range.start < end && range.end > start);
+    if (covering.some(range => range.policy === 'skip')) continue;
+    push(start, end, covering.length ? 1 / speedRate : 1);
+  }
+  return pieces;
+};
+
+export const condensedDuration = (pieces: TimelinePiece[]) => {
+  const last = pieces[pieces.length - 1];
+  return last ? last.offset + (last.end - last.start) * last.scale : 0;
+};
+
+// Media time to condensed time; inside a skipped part that is where the skip lands
+export const toCondensedTime = (pieces: TimelinePiece[], time: number) => {
+  for (const piece of pieces) {
+    if (time < piece.start) return piece.offset;
+    if (time < piece.end) return piece.offset + (time - piece.start) * piece.scale;
+  }
+  return condensedDuration(pieces);
+};
+
+export const fromCondensedTime = (pieces: TimelinePiece[], position: number) => {
+  for (const piece of pieces) {
+    if (position < piece.offset + (piece.end - piece.start) * piece.scale) {
+      return piece.start + Math.max(0, position - piece.offset) / piece.scale;
+    }
+  }
+  return pieces.length ? pieces[pieces.length - 1].end : 0;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { SkipCategory } from '../types';
+import { buildShareUrl, parseShareFragment, SharedSession } from './shareService';
+
+const session: SharedSession = {
+  source: 'https://example.com/talk.mp4?x=1&y=2',
+  segments: [
+    { start: 12.54, end: 18, reason: 'Sponsor', category: SkipCategory.SPONSOR, confidence: 0.85 },
+    { start: 40, end: 52.3, reason: 'Something' },
+  ],
+  mode: 'speed',
+  playbackRate: 1.5,
+  startTime: 73.8,
+};
+
+const fragmentOf = (url: string) => url.slice(url.indexOf('#'));
+
+describe('share links', () => {
+  it('round-trip the source, segments and player settings', () => {
+    const url = buildShareUrl(session, 'https://smartskip.app/?v=1#old');
+    expect(url.startsWith('https://smartskip.app/?v=1#share=1&')).toBe(true);
+
+    const shared = parseShareFragment(fragmentOf(url))!;
+    expect(shared.source).toBe(session.source);
+    expect(shared.mode).toBe('speed');
+    expect(shared.playbackRate).toBe(1.5);
+    expect(shared.startTime).toBe(73);
+    expect(shared.segments).toEqual([
+      { start: 12.5, end: 18, reason: 'Sponsor', category: SkipCategory.SPONSOR, confidence: 0.85 },
+      { start: 40, end: 52.3, reason: 'Skippable' },
+    ]);
+  });
+
+  it('only shares videos loaded from a link', () => {
+    expect(() => buildShareUrl({ ...session, source: 'blob:https://smartskip.app/1' }, 'https://smartskip.app/'))
+      .toThrow('Only videos loaded from a link can be shared');
+  });
+
+  it('ignores fragments that are not share links', () => {
+    expect(parseShareFragment('')).toBeNull();
+    expect(parseShareFragment('#section-2')).toBeNull();
+  });
+
+  it('rejects broken or newer links', () => {
+    expect(() => parseShareFragment('#share=2&src=https://a.b/c')).toThrow('newer version');
+    expect(() => parseShareFragment('#share=1&src=javascript:alert(1)')).toThrow('no valid video link');
+    expect(() => parseShareFragment('#share=1&src=https://a.b/c&seg=1-x')).toThrow('malformed segment: "1-x"');
+  });
+
+  it('falls back to safe player settings', () => {
+    const shared = parseShareFragment('#share=1&src=https://a.b/c&mode=warp&rate=100&t=-4')!;
+    expect(shared).toMatchObject({ mode: 'skip', playbackRate: 1, startTime: 0, segments: [] });
+  });
+});
@@ -0,0 +1,90 @@
+import { SkipCategory, SkipMode, SkipSegment } from '../types';
+import { normalizeSegments } from './normalizeService';
+import { CATEGORY_INFO } from './skipPolicyService';
+
+// Links carry everything in the URL fragment, which browsers never send to a server.
+// #share=1&src=<link>&seg=12.5-18s85_40-52.3p&mode=skip&rate=2&t=73
+const SHARE_VERSION = 1;
+const MODES: SkipMode[] = ['off', 'skip', 'speed'];
+
+// One letter per category keeps the segment list short
+const CATEGORY_CODES: Record<SkipCategory, string> = {
+  [SkipCategory.SILENCE]: 's',
+  [SkipCategory.FILLER]: 'f',
+  [SkipCategory.REPETITION]: 'r',
+  [SkipCategory.INTRO_OUTRO]: 'i',
+  [SkipCategory.SPONSOR]: 'p',
+  [SkipCategory.OFF_TOPIC]: 'o',
+};
+
+const SEGMENT_PATTERN = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)([a-z])?(\d{1,3})?$/;
+
+export interface SharedSession {
+  source: string; // The original link, re-resolved when the share is opened
+  segments: SkipSegment[];
+  mode: SkipMode;
+  playbackRate: number;
+  startTime: number;
+}
+
+// Tenths of a second are plenty for skip boundaries
+const formatTime = (seconds: number) => String(Math.round(seconds * 10) / 10);
+
+const encodeSegment = (seg: SkipSegment) => {
+  const code = seg.category ? CATEGORY_CODES[seg.category] : '';
+  const confidence = seg.confidence !== undefined ? String(Math.round(seg.confidence * 100)) : '';
+  return `${formatTime(seg.start)}-${formatTime(seg.end)}${code}${confidence}`;
+};
+
+const decodeSegment = (token: string): SkipSegment => {
+  const match = SEGMENT_PATTERN.exec(token);
+  if (!match) throw new Error(`Share link has a malformed segment: "${token}"`);
+  const segment: SkipSegment = { start: Number(match[1]), end: Number(match[2]), reason: 'Skippable' };
+  const category = (Object.keys(CATEGORY_CODES) as SkipCategory[]).find(c => CATEGORY_CODES[c] === match[3]);
+  if (category) {
+    segment.category = category;
+    segment.reason = CATEGORY_INFO[category].label;
+  }
+  if (match[4]) segment.confidence = Math.min(1, Number(match[4]) / 100);
+  return segment;
+};
+
+export const canShareSource = (url?: string) => !!url && /^https?:\/\//i.test(url);
+
+export const buildShareUrl = (session: SharedSession, base = window.location.href) => {
+  if (!canShareSource(session.source)) throw new Error('Only videos loaded from a link can be shared');
+  const params = new URLSearchParams({
+    share: String(SHARE_VERSION),
+    src: session.source,
+    seg: session.segments.map(encodeSegment).join('_'),
+    mode: session.mode,
+    rate: String(session.playbackRate),
+  });
+  if (session.startTime >= 1) params.set('t', String(Math.floor(session.startTime)));
+  return `${base.split('#')[0]}#${params}`;
+};
+
+// Returns null for fragments that are not share links and throws for broken ones.
+export const parseShareFragment = (hash: string): SharedSession | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const version = params.get('share');
+  if (!version) return null;
+  if (Number(version) > SHARE_VERSION) throw new Error('This share link was made by a newer version of SmartSkip');
+
+  const source = params.get('src') || '';
+  if (!canShareSource(source)) throw new Error('Share link has no valid video link');
+
+  const tokens = (params.get('seg') || '').split('_').filter(Boolean);
+  const { segments } = normalizeSegments(tokens.map(decodeSegment));
+
+  const mode = params.get('mode') as SkipMode;
+  const rate = Number(params.get('rate'));
+  const startTime = Number(params.get('t'));
+  return {
+    source,
+    segments,
+    mode: MODES.includes(mode) ? mode : 'skip',
+    playbackRate: rate > 0 && rate <= 16 ? rate : 1,
+    startTime: startTime > 0 ? startTime : 0,
+  };
+};
@@ -0,0 +1,105 @@
+import { AnalysisResult, SilenceOptions, SkipCategory, SkipSegment } from '../types';
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  thresholdDb: -40,
+  minDuration: 0.8,
+  padding: 0.15,
+  frameSize: 0.02,
+};
+
+const decodeAudio = async (file: File): Promise<AudioBuffer> => {
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new Error("Silence detection needs the Web Audio API, which is only available in the browser");
+  }
+  const buffer = await file.arrayBuffer();
+  // A 1-channel offline context is enough to get at the decoder; it never renders.
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+  try {
+    return await ctx.decodeAudioData(buffer);
+  } catch (error: any) {
+    throw new Error("Could not decode the audio track of this file. " + (error?.message || ''));
+  }
+};
+
+// Mixes all channels down and returns the RMS level of each frame in dBFS.
+export const computeFrameLevels = (audio: AudioBuffer, frameSize: number): number[] => {
+  const frameLength = Math.max(1, Math.round(frameSize * audio.sampleRate));
+  const frameCount = Math.ceil(audio.length / frameLength);
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    channels.push(audio.getChannelData(c));
+  }
+
+  const levels: number[] = new Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const from = f * frameLength;
+    const to = Math.min(from + frameLength, audio.length);
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length || 1;
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / Math.max(1, to - from));
+    levels[f] = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+  return levels;
+};
+
+export const findSilentSegments = (
+  levels: number[],
+  frameSize: number,
+  totalDuration: number,
+  options: SilenceOptions
+): SkipSegment[] => {
+  const segments: SkipSegment[] = [];
+  let runStart = -1;
+
+  const closeRun = (endFrame: number) => {
+    const rawStart = runStart * frameSize;
+    const rawEnd = Math.min(endFrame * frameSize, totalDuration);
+    // Keep a little air around the neighbouring speech, except at the very edges of the file.
+    const start = runStart === 0 ? 0 : rawStart + options.padding;
+    const end = rawEnd >= totalDuration ? totalDuration : rawEnd - options.padding;
+    if (end - start >= options.minDuration) {
+      // The deeper below the threshold the run sits on average, the surer we are it is dead air
+      let sum = 0;
+      for (let f = runStart; f < endFrame; f++) sum += Math.max(levels[f], options.thresholdDb - 40);
+      const depth = options.thresholdDb - sum / (endFrame - runStart);
+      const confidence = Math.min(1, 0.5 + depth / 40);
+      segments.push({ start, end, reason: 'Silence', category: SkipCategory.SILENCE, confidence });
+    }
+    runStart = -1;
+  };
+
+  for (let f = 0; f < levels.length; f++) {
+    const silent = levels[f] < options.thresholdDb;
+    if (silent && runStart < 0) runStart = f;
+    if (!silent && runStart >= 0) closeRun(f);
+  }
+  if (runStart >= 0) closeRun(levels.length);
+
+  return segments;
+};
+
+export const analyzeSilence = async (
+  file: File,
+  options: Partial<SilenceOptions> = {},
+  onProgress?: (status: string) => void
+): Promise<AnalysisResult> => {
+  const opts = { ...DEFAULT_SILENCE_OPTIONS, ...options };
+
+  if (onProgress) onProgress("Decoding audio track locally...");
+  const audio = await decodeAudio(file);
+
+  if (onProgress) onProgress("Measuring loudness...");
+  const levels = computeFrameLevels(audio, opts.frameSize);
+  const segments = findSilentSegments(levels, opts.frameSize, audio.duration, opts);
+
+  const silentTime = segments.reduce((acc, seg) => acc + (seg.end - seg.start), 0);
+  return {
+    segments,
+    summary: `Offline silence scan: ${segments.length} silent stretches below ${opts.thresholdDb} dB, ${Math.round(silentTime)}s in total.`,
+  };
+};
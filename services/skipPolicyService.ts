@@ -0,0 +1,171 @@
+import { CrossfadeSettings, SegmentOverride, SegmentOverrides, SkipCategory, SkipPolicies, SkipPolicy, SkipSegment, SpeedThroughSettings } from '../types';
+
+const POLICIES_KEY = 'smartskip.skipPolicies';
+const CONFIDENCE_KEY = 'smartskip.minConfidence';
+const SPEED_THROUGH_KEY = 'smartskip.speedThrough';
+const CROSSFADE_KEY = 'smartskip.crossfade';
+const OVERRIDES_KEY = 'smartskip.segmentOverrides';
+const MAX_OVERRIDE_VIDEOS = 200;
+
+export interface CategoryInfo {
+  label: string;
+  color: string;     // Timeline highlight
+  textColor: string; // Labels and chips
+}
+
+export const CATEGORY_INFO: Record<SkipCategory, CategoryInfo> = {
+  [SkipCategory.SILENCE]: { label: 'Silence', color: 'bg-purple-500/60', textColor: 'text-purple-300' },
+  [SkipCategory.FILLER]: { label: 'Filler', color: 'bg-amber-500/60', textColor: 'text-amber-300' },
+  [SkipCategory.REPETITION]: { label: 'Repetition', color: 'bg-cyan-500/60', textColor: 'text-cyan-300' },
+  [SkipCategory.INTRO_OUTRO]: { label: 'Intro / Outro', color: 'bg-pink-500/60', textColor: 'text-pink-300' },
+  [SkipCategory.SPONSOR]: { label: 'Sponsor', color: 'bg-green-500/60', textColor: 'text-green-300' },
+  [SkipCategory.OFF_TOPIC]: { label: 'Off-topic', color: 'bg-orange-500/60', textColor: 'text-orange-300' },
+};
+
+export const SKIP_CATEGORIES = Object.values(SkipCategory) as SkipCategory[];
+
+export const DEFAULT_SKIP_POLICIES: SkipPolicies = {
+  [SkipCategory.SILENCE]: 'skip',
+  [SkipCategory.FILLER]: 'skip',
+  [SkipCategory.REPETITION]: 'skip',
+  [SkipCategory.INTRO_OUTRO]: 'skip',
+  [SkipCategory.SPONSOR]: 'skip',
+  [SkipCategory.OFF_TOPIC]: 'speed',
+};
+
+export const DEFAULT_MIN_CONFIDENCE = 0;
+
+export const SPEED_THROUGH_RATES = [4, 6, 8];
+
+export const DEFAULT_SPEED_THROUGH: SpeedThroughSettings = {
+  rate: 4,
+  muted: false,
+};
+
+export const DEFAULT_CROSSFADE: CrossfadeSettings = {
+  enabled: true,
+  fadeMs: 60,
+  preRoll: 0,
+  postRoll: 0,
+};
+
+// Segments from older analyses, imports or manual edits carry no category; guess one from the reason.
+export const getCategory = (seg: SkipSegment): SkipCategory => {
+  if (seg.category && CATEGORY_INFO[seg.category]) return seg.category;
+  const reason = seg.reason.toLowerCase();
+  if (/silen|pause|dead air/.test(reason)) return SkipCategory.SILENCE;
+  if (/repe|redundan/.test(reason)) return SkipCategory.REPETITION;
+  if (/intro|outro|music/.test(reason)) return SkipCategory.INTRO_OUTRO;
+  if (/sponsor|ad\b|advert/.test(reason)) return SkipCategory.SPONSOR;
+  if (/off.?topic|tangent/.test(reason)) return SkipCategory.OFF_TOPIC;
+  return SkipCategory.FILLER;
+};
+
+// speedThrough turns every "skip" into "speed", for when context matters more than time.
+// A per-segment override beats both the category rule and the confidence threshold.
+export const resolvePolicy = (
+  seg: SkipSegment,
+  policies: SkipPolicies,
+  minConfidence: number,
+  speedThrough = false,
+  override?: SegmentOverride
+): SkipPolicy => {
+  if (override === 'keep') return 'ignore';
+  let policy = policies[getCategory(seg)] || 'skip';
+  if (override === 'skip') {
+    if (policy === 'ignore') policy = 'skip';
+  } else if ((seg.confidence ?? 1) < minConfidence) {
+    return 'ignore';
+  }
+  return speedThrough && policy === 'skip' ? 'speed' : policy;
+};
+
+// Overrides survive re-analysis and edits that leave a segment's bounds alone
+export const segmentKey = (seg: SkipSegment) => `${seg.start.toFixed(1)}-${seg.end.toFixed(1)}`;
+
+const loadAllOverrides = (): Record<string, SegmentOverrides> => {
+  try {
+    const raw = localStorage.getItem(OVERRIDES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("Ignoring unreadable segment overrides:", e);
+    return {};
+  }
+};
+
+export const loadSegmentOverrides = (videoId: string): SegmentOverrides => loadAllOverrides()[videoId] || {};
+
+// Videos are kept in the order they were last changed; the oldest fall off past MAX_OVERRIDE_VIDEOS
+export const saveSegmentOverrides = (videoId: string, overrides: SegmentOverrides) => {
+  const { [videoId]: _previous, ...others } = loadAllOverrides();
+  const entries = Object.entries(others).slice(-(MAX_OVERRIDE_VIDEOS - 1));
+  if (Object.keys(overrides).length > 0) entries.push([videoId, overrides]);
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(Object.fromEntries(entries)));
+};
+
+// Choices made under a video's provisional id join the ones stored under its content hash
+export const moveSegmentOverrides = (fromId: string, toId: string) => {
+  const { [fromId]: moved, ...others } = loadAllOverrides();
+  if (fromId === toId || !moved) return;
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(others));
+  saveSegmentOverrides(toId, { ...others[toId], ...moved });
+};
+
+export const loadSkipPolicies = (): SkipPolicies => {
+  try {
+    const raw = localStorage.getItem(POLICIES_KEY);
+    return raw ? { ...DEFAULT_SKIP_POLICIES, ...JSON.parse(raw) } : DEFAULT_SKIP_POLICIES;
+  } catch (e) {
+    console.warn("Ignoring unreadable skip policies:", e);
+    return DEFAULT_SKIP_POLICIES;
+  }
+};
+
+export const saveSkipPolicies = (policies: SkipPolicies) => {
+  localStorage.setItem(POLICIES_KEY, JSON.stringify(policies));
+};
+
+export const loadMinConfidence = (): number => {
+  const value = Number(localStorage.getItem(CONFIDENCE_KEY));
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : DEFAULT_MIN_CONFIDENCE;
+};
+
+export const saveMinConfidence = (value: number) => {
+  localStorage.setItem(CONFIDENCE_KEY, String(value));
+};
+
+export const loadSpeedThrough = (): SpeedThroughSettings => {
+  try {
+    const raw = localStorage.getItem(SPEED_THROUGH_KEY);
+    return raw ? { ...DEFAULT_SPEED_THROUGH, ...JSON.parse(raw) } : DEFAULT_SPEED_THROUGH;
+  } catch (e) {
+    console.warn("Ignoring unreadable speed-through settings:", e);
+    return DEFAULT_SPEED_THROUGH;
+  }
+};
+
+export const saveSpeedThrough = (settings: SpeedThroughSettings) => {
+  localStorage.setItem(SPEED_THROUGH_KEY, JSON.stringify(settings));
+};
+
+export const loadCrossfade = (): CrossfadeSettings => {
+  try {
+    const raw = localStorage.getItem(CROSSFADE_KEY);
+    return raw ? { ...DEFAULT_CROSSFADE, ...JSON.parse(raw) } : DEFAULT_CROSSFADE;
+  } catch (e) {
+    console.warn("Ignoring unreadable crossfade settings:", e);
+    return DEFAULT_CROSSFADE;
+  }
+};
+
+export const saveCrossfade = (settings: CrossfadeSettings) => {
+  localStorage.setItem(CROSSFADE_KEY, JSON.stringify(settings));
+};
+
+// Shrinks a segment by the pre/post-roll padding; null when nothing is left to skip.
+export const padSegment = (seg: SkipSegment, { preRoll, postRoll }: CrossfadeSettings): SkipSegment | null => {
+  if (!preRoll && !postRoll) return seg;
+  const start = seg.start + preRoll;
+  const end = seg.end - postRoll;
+  return end > start ? { ...seg, start, end } : null;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { PlaybackSettings, SkipCategory } from '../types';
+import { computeStats, createTimeSavedTracker, formatClock, formatDuration } from './statsService';
+import { DEFAULT_SKIP_POLICIES, DEFAULT_SPEED_THROUGH, segmentKey } from './skipPolicyService';
+
+const settings: PlaybackSettings = {
+  playbackRate: 2,
+  smartSkipEnabled: true,
+  speedThroughEnabled: false,
+  policies: DEFAULT_SKIP_POLICIES,
+  minConfidence: 0,
+  speedThrough: DEFAULT_SPEED_THROUGH,
+};
+
+const silence = { start: 10, end: 30, reason: 'Pause', category: SkipCategory.SILENCE };
+const tangent = { start: 50, end: 90, reason: 'Tangent', category: SkipCategory.OFF_TOPIC };
+
+describe('computeStats', () => {
+  it('removes skips, compresses speed-throughs and applies the playback rate to the rest', () => {
+    const stats = computeStats([silence, tangent], 100, settings);
+    // 40s kept at 2x, 40s sped through at 4x
+    expect(stats.condensed).toBe(50);
+    expect(stats.watchTime).toBe(30);
+    expect(stats.saved).toBe(70);
+    expect(stats.fromSpeedUp).toBe(20);
+    expect(stats.byCategory).toEqual([
+      { category: SkipCategory.OFF_TOPIC, seconds: 30 },
+      { category: SkipCategory.SILENCE, seconds: 20 },
+    ]);
+  });
+
+  it('honours per-segment overrides', () => {
+    const stats = computeStats([silence], 100, { ...settings, playbackRate: 1 }, { [segmentKey(silence)]: 'keep' });
+    expect(stats.saved).toBe(0);
+  });
+
+  it('counts nothing as skipped when smart skip is off', () => {
+    const stats = computeStats([silence, tangent], 100, { ...settings, smartSkipEnabled: false, playbackRate: 1 });
+    expect(stats).toMatchObject({ condensed: 100, watchTime: 100, saved: 0, byCategory: [] });
+  });
+});
+
+describe('createTimeSavedTracker', () => {
+  it('credits playback faster than real time', () => {
+    const tracker = createTimeSavedTracker();
+    tracker.progress(10, 0);
+    tracker.progress(12, 1000); // 2s of media in 1s at 2x
+    expect(tracker.pending()).toBe(1);
+  });
+
+  it('counts a skip once when timeupdate fires between seeking and seeked', () => {
+    const tracker = createTimeSavedTracker();
+    tracker.progress(10, 0);
+    tracker.progress(10.25, 250);
+    // The skip engine jumps 10.25 -> 16 and credits what it jumped over
+    tracker.credit(16 - 10.25);
+    tracker.interrupt();        // seeking
+    tracker.progress(16, 260);  // timeupdate at the new position, before seeked
+    tracker.progress(16.25, 510);
+    expect(tracker.pending()).toBeCloseTo(5.75);
+  });
+
+  it('does not count manual seeks as saved time', () => {
+    const tracker = createTimeSavedTracker();
+    tracker.progress(30, 0);
+    tracker.interrupt();
+    tracker.progress(38, 20);
+    expect(tracker.pending()).toBe(0);
+  });
+
+  it('refunds no more than was credited and reports each second once', () => {
+    const tracker = createTimeSavedTracker();
+    tracker.credit(3);
+    tracker.refund(2);
+    expect(tracker.take()).toBe(1);
+    tracker.refund(5);
+    expect(tracker.pending()).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses the two largest units', () => {
+    expect(formatDuration(42.4)).toBe('42s');
+    expect(formatDuration(65)).toBe('1m 5s');
+    expect(formatDuration(3 * 3600 + 125)).toBe('3h 2m');
+    expect(formatDuration(-5)).toBe('0s');
+  });
+});
+
+describe('formatClock', () => {
+  it('formats player positions', () => {
+    expect(formatClock(0)).toBe('0:00');
+    expect(formatClock(65.9)).toBe('1:05');
+    expect(formatClock(3725)).toBe('1:02:05');
+    expect(formatClock(NaN)).toBe('0:00');
+  });
+});
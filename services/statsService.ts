@@ -0,0 +1,126 @@
+import { PlaybackSettings, SegmentOverrides, SkipCategory, SkipSegment } from '../types';
+import { getCategory, resolvePolicy, segmentKey } from './skipPolicyService';
+import { mergeOverlapping } from './segmentUtils';
+
+export interface PlaybackStats {
+  original: number;  // Full media length
+  condensed: number; // Media time actually played (skips removed, sped-through parts compressed)
+  watchTime: number; // Real time it takes at the current speed
+  saved: number;     // original - watchTime
+  byCategory: { category: SkipCategory; seconds: number }[];
+  fromSpeedUp: number; // Saved by the playback rate alone on the kept content
+}
+
+// All figures are relative to watching the whole video once at 1x.
+export const computeStats = (
+  segments: SkipSegment[],
+  duration: number,
+  settings: PlaybackSettings,
+  overrides: SegmentOverrides = {}
+): PlaybackStats => {
+  const rate = settings.playbackRate || 1;
+  const byCategory = new Map<SkipCategory, number>();
+  let skipped = 0;
+  let spedMedia = 0;
+  let spedWatch = 0;
+
+  if (settings.smartSkipEnabled) {
+    const policyFor = (seg: SkipSegment) =>
+      resolvePolicy(seg, settings.policies, settings.minConfidence, settings.speedThroughEnabled, overrides[segmentKey(seg)]);
+    const active = segments.filter(seg => policyFor(seg) !== 'ignore');
+    for (const seg of mergeOverlapping(active)) {
+      const start = Math.max(0, seg.start);
+      const end = Math.min(duration, seg.end);
+      if (end <= start) continue;
+      const length = end - start;
+      const policy = policyFor(seg);
+      const category = getCategory(seg);
+
+      if (policy === 'speed') {
+        const watch = length / settings.speedThrough.rate;
+        spedMedia += length;
+        spedWatch += watch;
+        byCategory.set(category, (byCategory.get(category) || 0) + length - watch);
+      } else {
+        skipped += length;
+        byCategory.set(category, (byCategory.get(category) || 0) + length);
+      }
+    }
+  }
+
+  const kept = Math.max(0, duration - skipped - spedMedia);
+  const watchTime = kept / rate + spedWatch;
+
+  return {
+    original: duration,
+    condensed: kept + spedWatch,
+    watchTime,
+    saved: Math.max(0, duration - watchTime),
+    byCategory: Array.from(byCategory, ([category, seconds]) => ({ category, seconds }))
+      .sort((a, b) => b.seconds - a.seconds),
+    fromSpeedUp: kept - kept / rate,
+  };
+};
+
+// Time saved while watching, compared to 1x. Skips credit what they jump over and playback faster
+// than real time credits the difference. A seek breaks the progress line: jumps are not watched time.
+export interface TimeSavedTracker {
+  progress: (media: number, wallMs: number) => void; // Position while playing, with performance.now()
+  interrupt: () => void;                             // Seeking or pausing; the next progress starts afresh
+  credit: (seconds: number) => void;
+  refund: (seconds: number) => void;                 // Never below what is still unreported
+  pending: () => number;
+  take: () => number;                                // Unreported savings, reset to 0
+}
+
+// Progress steps this long are jumps the seek events missed, not playback
+const MAX_PROGRESS_STEP = 10;
+
+export const createTimeSavedTracker = (): TimeSavedTracker => {
+  let unreported = 0;
+  let last: { media: number; wall: number } | null = null;
+  return {
+    progress: (media, wallMs) => {
+      if (last) {
+        const watched = media - last.media;
+        const elapsed = (wallMs - last.wall) / 1000;
+        if (watched > 0 && watched < MAX_PROGRESS_STEP) unreported += Math.max(0, watched - elapsed);
+      }
+      last = { media, wall: wallMs };
+    },
+    interrupt: () => {
+      last = null;
+    },
+    credit: (seconds) => {
+      unreported += seconds;
+    },
+    refund: (seconds) => {
+      unreported = Math.max(0, unreported - seconds);
+    },
+    pending: () => unreported,
+    take: () => {
+      const saved = unreported;
+      unreported = 0;
+      return saved;
+    },
+  };
+};
+
+// Player-style position: m:ss, or h:mm:ss past the hour
+export const formatClock = (seconds: number) => {
+  const total = Number.isFinite(seconds) ? Math.floor(Math.max(0, seconds)) : 0;
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(Math.max(0, seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+};
@@ -1,10 +1,12 @@
-export const isYoutubeUrl = (url: string) => {
-  return url.includes('youtube.com') || url.includes('youtu.be');
-};
+import { ResolverAttempt, ResolverHealth, ResolverSettings } from '../types';
+import { throwIfCancelled } from './retryService';
 
-export const resolveYoutubeUrl = async (url: string): Promise<string> => {
-  // Reliable instances that usually support CORS headers for frontend requests
-  const instances = [
+const SETTINGS_KEY = 'smartskip.youtubeResolvers';
+const HEALTH_KEY = 'smartskip.resolverHealth';
+
+// Public cobalt instances that usually send CORS headers for frontend requests
+export const DEFAULT_RESOLVER_SETTINGS: ResolverSettings = {
+  instances: [
     'https://co.wuk.sh/api/json',
     'https://api.succubus.space/api/json',
     'https://cobalt.kwiatekmiki.pl/api/json',
@@ -13,76 +15,219 @@ export const resolveYoutubeUrl = async (url: string): Promise<string> => {
     'https://cobalt.slpy.one/api/json',
     'https://api.server.exelban.com/api/json',
     'https://cobalt.xy2401.com/api/json',
-    'https://cobalt.arms.nu/api/json'
-  ];
-  
-  // 1. Sanitize URL
-  let cleanUrl = url;
+    'https://cobalt.arms.nu/api/json',
+  ],
+  timeoutMs: 8000,
+  parallel: 3,
+};
+
+// How far the latest attempt moves an instance's moving averages
+const HEALTH_WEIGHT = 0.3;
+
+// Every instance tried failed; `attempts` says why, per instance
+export class YoutubeResolveError extends Error {
+  attempts: ResolverAttempt[];
+
+  constructor(attempts: ResolverAttempt[]) {
+    super('Failed to resolve YouTube URL. Every resolver failed; the video might be restricted.');
+    this.name = 'YoutubeResolveError';
+    this.attempts = attempts;
+  }
+}
+
+export const isYoutubeUrl = (url: string) => {
+  return url.includes('youtube.com') || url.includes('youtu.be');
+};
+
+export const resolverHost = (instance: string) => {
   try {
-      const urlObj = new URL(url);
-      if (urlObj.hostname === 'youtu.be') {
-          cleanUrl = `https://www.youtube.com/watch?v=${urlObj.pathname.slice(1)}`;
-      } else if (urlObj.hostname.includes('youtube.com')) {
-          const v = urlObj.searchParams.get('v');
-          if (v) {
-              cleanUrl = `https://www.youtube.com/watch?v=${v}`;
-          }
-      }
+    return new URL(instance).host;
+  } catch {
+    return instance;
+  }
+};
+
+export const loadResolverSettings = (): ResolverSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_RESOLVER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_RESOLVER_SETTINGS;
   } catch (e) {
-      console.warn("URL sanitization failed, using original:", e);
+    console.warn("Ignoring unreadable resolver settings:", e);
+    return DEFAULT_RESOLVER_SETTINGS;
   }
+};
 
-  let lastError = null;
+export const saveResolverSettings = (settings: ResolverSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
 
-  // 2. Try each instance
-  for (const apiBase of instances) {
-    try {
-        const body = JSON.stringify({
-            url: cleanUrl,
-            filenamePattern: 'basic',
-        });
-        
-        // Direct fetch only. Do not use generic CORS proxies for the API call itself 
-        // as they often break POST JSON bodies or strip headers.
-        const response = await fetch(apiBase, { 
-            method: 'POST', 
-            headers: {
-                'Accept': 'application/json',
-                'Content-Type': 'application/json'
-            },
-            body 
-        });
-
-        // Strict Content-Type check to avoid parsing HTML error pages
-        const contentType = response.headers.get('content-type');
-        if (!contentType || !contentType.includes('application/json')) {
-             throw new Error(`Invalid content-type: ${contentType}`);
-        }
+export const loadResolverHealth = (): Record<string, ResolverHealth> => {
+  try {
+    const raw = localStorage.getItem(HEALTH_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("Ignoring unreadable resolver health:", e);
+    return {};
+  }
+};
 
-        const data = await response.json();
+const saveResolverHealth = (health: Record<string, ResolverHealth>) => {
+  try {
+    localStorage.setItem(HEALTH_KEY, JSON.stringify(health));
+  } catch (e) {
+    console.warn("Could not save resolver health:", e);
+  }
+};
 
-        if (data.status === 'error') {
-            throw new Error(data.text || 'Resolver returned error');
-        }
+export const clearResolverHealth = () => {
+  localStorage.removeItem(HEALTH_KEY);
+};
 
-        if (data.status === 'picker') {
-            const item = data.picker.find((p: any) => p.type === 'video');
-            if (item) return item.url;
-            throw new Error('No video stream found in picker');
-        }
+// Higher is better. Untried instances sit in the middle, so they get a chance before known-bad ones.
+export const healthScore = (health: ResolverHealth | undefined, timeoutMs: number) => {
+  const successRate = health ? health.successRate : 0.5;
+  const latency = health?.latencyMs ?? timeoutMs / 2;
+  return successRate - 0.3 * Math.min(1, latency / timeoutMs);
+};
 
-        if (data.status === 'stream' || data.status === 'redirect') {
-            return data.url;
-        }
-        
-        throw new Error('Unexpected response format');
+const recordAttempt = (health: Record<string, ResolverHealth>, instance: string, outcome: { ms: number; error?: string }) => {
+  const previous = health[instance];
+  const ok = !outcome.error;
+  health[instance] = {
+    successRate: (previous ? previous.successRate : 0.5) * (1 - HEALTH_WEIGHT) + (ok ? HEALTH_WEIGHT : 0),
+    latencyMs: ok
+      ? previous?.latencyMs === undefined ? outcome.ms : previous.latencyMs * (1 - HEALTH_WEIGHT) + outcome.ms * HEALTH_WEIGHT
+      : previous?.latencyMs,
+    attempts: (previous?.attempts || 0) + 1,
+    lastError: outcome.error,
+    lastTried: Date.now(),
+  };
+};
+
+const sanitizeYoutubeUrl = (url: string) => {
+  try {
+    const urlObj = new URL(url);
+    if (urlObj.hostname === 'youtu.be') {
+      return `https://www.youtube.com/watch?v=${urlObj.pathname.slice(1)}`;
+    }
+    const v = urlObj.hostname.includes('youtube.com') ? urlObj.searchParams.get('v') : null;
+    if (v) return `https://www.youtube.com/watch?v=${v}`;
+  } catch (e) {
+    console.warn("URL sanitization failed, using original:", e);
+  }
+  return url;
+};
+
+// Asks one instance for a stream URL. Understands both the legacy /api/json responses and the
+// current cobalt API (status "tunnel", error objects) that self-hosted instances run.
+const requestStream = async (instance: string, url: string, timeoutMs: number, raceSignal: AbortSignal): Promise<string> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const stop = () => controller.abort();
+  raceSignal.addEventListener('abort', stop, { once: true });
+
+  try {
+    // Direct fetch only. Do not use generic CORS proxies for the API call itself
+    // as they often break POST JSON bodies or strip headers.
+    const response = await fetch(instance, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ url, filenamePattern: 'basic' }),
+    });
+
+    // Strict Content-Type check to avoid parsing HTML error pages
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      throw new Error(response.ok ? `Unexpected content-type: ${contentType}` : `HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
 
-    } catch (error: any) {
-        lastError = error;
-        // Continue to next instance loop
+    if (data.status === 'error') {
+      throw new Error(data.text || data.error?.code || 'Resolver returned error');
     }
+
+    if (data.status === 'picker') {
+      const item = data.picker.find((p: any) => p.type === 'video');
+      if (item) return item.url;
+      throw new Error('No video stream found in picker');
+    }
+
+    if ((data.status === 'stream' || data.status === 'redirect' || data.status === 'tunnel') && data.url) {
+      return data.url;
+    }
+
+    throw new Error('Unexpected response format');
+  } catch (error: any) {
+    if (timedOut) throw new Error(`No answer within ${timeoutMs / 1000}s`);
+    if (error instanceof TypeError) throw new Error('Unreachable or blocked by CORS');
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    raceSignal.removeEventListener('abort', stop);
+  }
+};
+
+// Races the healthiest instances `parallel` at a time; the first stream URL wins and the rest of
+// its group is cancelled. Outcomes feed the persisted health scores that order the next run.
+export const resolveYoutubeUrl = async (
+  url: string,
+  settings: ResolverSettings = loadResolverSettings(),
+  signal?: AbortSignal,
+): Promise<string> => {
+  const cleanUrl = sanitizeYoutubeUrl(url);
+  const health = loadResolverHealth();
+  const ranked = Array.from(new Set(settings.instances.map(i => i.trim()).filter(Boolean)))
+    .sort((a, b) => healthScore(health[b], settings.timeoutMs) - healthScore(health[a], settings.timeoutMs));
+  if (ranked.length === 0) {
+    throw new Error('No YouTube resolvers configured. Add one under "Resolvers".');
   }
 
-  console.error('All YouTube resolvers failed.', lastError);
-  throw new Error('Failed to resolve YouTube URL. The video might be restricted, or servers are busy. Please try again.');
-};
\ No newline at end of file
+  const attempts: ResolverAttempt[] = [];
+  const groupSize = Math.max(1, settings.parallel);
+
+  for (let i = 0; i < ranked.length; i += groupSize) {
+    throwIfCancelled(signal);
+    const race = new AbortController();
+    const cancel = () => race.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      const streamUrl = await Promise.any(ranked.slice(i, i + groupSize).map(async (instance) => {
+        const started = Date.now();
+        try {
+          const result = await requestStream(instance, cleanUrl, settings.timeoutMs, race.signal);
+          recordAttempt(health, instance, { ms: Date.now() - started });
+          return result;
+        } catch (error: any) {
+          // Losing the race says nothing about the instance
+          if (!race.signal.aborted) {
+            const message = error?.message || String(error);
+            attempts.push({ instance, error: message, ms: Date.now() - started });
+            recordAttempt(health, instance, { ms: Date.now() - started, error: message });
+          }
+          throw error;
+        }
+      }));
+      race.abort();
+      saveResolverHealth(health);
+      return streamUrl;
+    } catch {
+      // The whole group failed; on to the next one
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  saveResolverHealth(health);
+  throwIfCancelled(signal);
+  console.error('All YouTube resolvers failed.', attempts);
+  throw new YoutubeResolveError(attempts);
+};
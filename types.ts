@@ -1,12 +1,84 @@
+export enum SkipCategory {
+  SILENCE = 'silence',
+  FILLER = 'filler',
+  REPETITION = 'repetition',
+  INTRO_OUTRO = 'intro_outro',
+  SPONSOR = 'sponsor',
+  OFF_TOPIC = 'off_topic',
+}
+
 export interface SkipSegment {
   start: number;
   end: number;
   reason: string;
+  category?: SkipCategory;
+  confidence?: number; // 0..1, how sure the analyzer is that this part is skippable
+}
+
+// What the player does when it reaches a segment of a given category
+export type SkipPolicy = 'skip' | 'speed' | 'ignore';
+
+export type SkipPolicies = Record<SkipCategory, SkipPolicy>;
+
+// A viewer's choice for one segment of one video, overriding the category rules
+export type SegmentOverride = 'keep' | 'skip';
+
+export type SegmentOverrides = Record<string, SegmentOverride>; // Keyed by segmentKey()
+
+// How detected segments are handled: played normally, jumped over, or fast-played
+export type SkipMode = 'off' | 'skip' | 'speed';
+
+export interface SpeedThroughSettings {
+  rate: number;   // Playback rate inside sped-through segments
+  muted: boolean; // Mute instead of playing pitch-preserved audio
+}
+
+// Player state that affects how long the condensed video takes to watch
+export interface PlaybackSettings {
+  playbackRate: number;
+  smartSkipEnabled: boolean;
+  speedThroughEnabled: boolean;
+  policies: SkipPolicies;
+  minConfidence: number;
+  speedThrough: SpeedThroughSettings;
+}
+
+export interface CrossfadeSettings {
+  enabled: boolean;
+  fadeMs: number;  // Length of the gain ramp on each side of a skip
+  preRoll: number; // Seconds at the start of a segment still played before jumping
+  postRoll: number; // Seconds at the end of a segment played after landing
+}
+
+export interface TranscriptLine {
+  start: number; // in seconds
+  end: number;   // in seconds
+  text: string;
+}
+
+export interface Chapter {
+  start: number; // in seconds; a chapter runs until the next one starts
+  title: string;
+  description?: string;
 }
 
 export interface AnalysisResult {
   segments: SkipSegment[];
   summary: string;
+  transcript?: TranscriptLine[];
+  chapters?: Chapter[];
+  profile?: SkipProfile; // Snapshot of the skip profile the analysis ran with
+}
+
+export type SkipAggressiveness = 'conservative' | 'balanced' | 'aggressive';
+
+// Named analysis preferences, e.g. "keep the Q&A" for lectures or "drop sponsor reads" for podcasts
+export interface SkipProfile {
+  id: string;
+  name: string;
+  instructions: string;               // Extra instructions for analyzers that take a prompt
+  excludedCategories: SkipCategory[]; // Never skipped; removed from the result
+  aggressiveness: SkipAggressiveness;
 }
 
 export enum AnalysisStatus {
@@ -14,9 +86,125 @@ export enum AnalysisStatus {
   ANALYZING = 'ANALYZING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
 }
 
 export interface VideoFile {
   file: File;
   previewUrl: string;
+  contentHash?: string;
+  sourceUrl?: string; // The link it was downloaded from, which share links point to
+}
+
+export interface SilenceOptions {
+  thresholdDb: number;   // Frames quieter than this (dBFS) count as silence
+  minDuration: number;   // Shortest silence, in seconds, worth skipping
+  padding: number;       // Seconds of silence kept on each side of speech
+  frameSize: number;     // Analysis window, in seconds
+}
+
+export interface ChunkSettings {
+  windowSeconds: number;  // Media longer than this is analyzed in overlapping windows
+  overlapSeconds: number;
+  concurrency: number;
+}
+
+export interface AnalyzerSettings {
+  geminiModel: string;
+  geminiChunking: ChunkSettings;
+  httpEndpoint: string;
+  silence: SilenceOptions;
+}
+
+// Intermediate result of an analysis that streams in, e.g. window by window
+export interface PartialAnalysis {
+  result: AnalysisResult;
+  analyzedUntil: number; // Seconds from the start that are fully analyzed
+}
+
+// Progress that can be measured, for progress bars and time estimates
+export interface AnalysisProgress {
+  phase: 'upload' | 'analyze';
+  done: number; // Bytes while uploading, finished windows while analyzing
+  total: number;
+}
+
+export interface AnalyzeOptions {
+  settings: AnalyzerSettings;
+  profile?: SkipProfile;
+  duration?: number; // Media length when the caller already knows it; analyzers probe the file otherwise
+  signal?: AbortSignal; // Aborting rejects the analysis with an AbortError
+  onProgress?: (status: string) => void;
+  onMeasuredProgress?: (progress: AnalysisProgress) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+export interface SkipAnalyzer {
+  id: string;
+  label: string;
+  description: string;
+  offline: boolean; // True when the media never leaves the machine
+  followsInstructions: boolean; // True when skip profile instructions and aggressiveness reach the analyzer
+  // Identifies everything that changes the output (prompt, model, thresholds), used as part of the cache key
+  version: (settings: AnalyzerSettings) => string;
+  analyze: (file: File, options: AnalyzeOptions) => Promise<AnalysisResult>;
+}
+
+export interface ResolverSettings {
+  instances: string[]; // cobalt-compatible API endpoints, public or self-hosted
+  timeoutMs: number;   // Per attempt
+  parallel: number;    // Instances raced against each other at a time
+}
+
+export interface ResolverHealth {
+  successRate: number; // Moving average over recent attempts, 0-1
+  latencyMs?: number;  // Moving average of successful attempts
+  attempts: number;
+  lastError?: string;
+  lastTried: number;
+}
+
+export interface ResolverAttempt {
+  instance: string;
+  error: string;
+  ms: number;
+}
+
+export interface DownloadSettings {
+  direct: boolean;      // Also try the link itself, without a proxy
+  proxies: string[];    // URL templates tried in order: {url} is the encoded link, {raw} the link as is
+  maxMegabytes: number; // 0: no limit
+}
+
+// A video waiting in, or processed by, the playlist queue
+export interface QueueItem {
+  id: string;
+  name: string;
+  file?: File;  // Missing until a URL has been downloaded
+  url?: string;
+  status: AnalysisStatus; // IDLE means queued
+  progress: string;
+  result?: AnalysisResult;
+  analyzedUntil: number;
+  error?: string;
+}
+
+export interface CachedAnalysis {
+  id: string;
+  contentHash: string;
+  fileName: string;
+  fileSize: number;
+  analyzerId: string;
+  analyzerVersion: string;
+  result: AnalysisResult;
+  createdAt: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  fileName: string;
+  duration: number;
+  timeSaved: number; // Seconds saved compared to watching everything at 1x
+  firstWatched: number;
+  lastWatched: number;
 }
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the headless CLI (cli/smartskip.ts) for Node. Dependencies stay external.
+export default defineConfig({
+  build: {
+    ssr: 'cli/smartskip.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'smartskip.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Library builds of the player. The default build (lib/index.ts) leaves React to the host app;
+// `--mode element` bundles React in, so <smartskip-player> works on pages without it.
+export default defineConfig(({ mode }) => {
+  const element = mode === 'element';
+  return {
+    plugins: [react()],
+    define: {
+      'process.env.NODE_ENV': JSON.stringify('production'),
+    },
+    build: {
+      outDir: element ? 'dist-lib/element' : 'dist-lib',
+      emptyOutDir: !element,
+      lib: element
+        ? { entry: 'lib/element.ts', name: 'SmartSkipPlayer', formats: ['es', 'iife'], fileName: (format) => `smartskip-player.${format}.js` }
+        : { entry: 'lib/index.ts', formats: ['es'], fileName: () => 'index.js' },
+      rollupOptions: {
+        external: element ? [] : ['react', 'react-dom', 'react-dom/client', 'react/jsx-runtime'],
+      },
+    },
+  };
+});